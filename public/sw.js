@@ -0,0 +1,94 @@
+// Service worker for offline use. At install it precaches everything listed
+// in precache-manifest.json, which the build writes: the app shell, the
+// bundled guide data and the model weights in models/. Navigations are
+// answered from the network when possible and from the cached app shell
+// otherwise; other same-origin GET requests are served cache first.
+
+// Registered as sw.js?build=<id>, so every build gets its own cache and a
+// new build is picked up as an update
+const BUILD_ID = new URL(self.location.href).searchParams.get("build") ?? "dev";
+const CACHE_PREFIX = "clean-bin-";
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+
+// The scope is the app's base URL, which need not be the site root
+const appUrl = path => new URL(path, self.registration.scope).href;
+const MANIFEST_URL = appUrl("precache-manifest.json");
+const SHELL_URL = appUrl("index.html");
+
+self.addEventListener("install", event => {
+  event.waitUntil((async () => {
+    const response = await fetch(MANIFEST_URL, { cache: "no-store" });
+    if (!response.ok) throw new Error(`Unable to load ${MANIFEST_URL}: ${response.status}`);
+    const { files } = await response.json();
+
+    const cache = await caches.open(CACHE_NAME);
+    // Fetch fresh copies, not ones the HTTP cache kept from an older build
+    await cache.addAll(files.map(file => new Request(file, { cache: "reload" })));
+  })());
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+        .map(name => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+self.addEventListener("message", event => {
+  if (event.data?.type === "skip-waiting") self.skipWaiting();
+});
+
+const handleNavigation = async request => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    // Every route is rendered by the same index.html
+    const shell = await caches.match(SHELL_URL, { cacheName: CACHE_NAME });
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+const handleAsset = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Keep what was not precached, such as model weights served from a
+  // different path, for the next time the device is offline
+  if (response.ok && response.type === "basic") {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.href === MANIFEST_URL) return;
+
+  event.respondWith(request.mode === "navigate" ? handleNavigation(request) : handleAsset(request));
+});
+
+// Collection reminders are shown through this worker, open the schedule
+// (or focus an open window) when one is clicked
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window" });
+    if (windows.length > 0) {
+      // navigate() rejects for a window this worker does not control yet,
+      // that one is only focused
+      const client = await windows[0].navigate(appUrl("schedule")).catch(() => null);
+      return (client ?? windows[0]).focus();
+    }
+    return self.clients.openWindow(appUrl("schedule"));
+  })());
+});
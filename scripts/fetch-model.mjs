@@ -0,0 +1,41 @@
+// Downloads the model weights into public/models so the app can serve the
+// models itself. Run once before building: `npm run model:fetch`.
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const MODELS = [
+  {
+    name: "mobilenet",
+    source: "https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v1_0.25_224",
+  },
+  {
+    name: "coco-ssd",
+    source: "https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2",
+  },
+];
+
+const download = async (source, target, file) => {
+  const response = await fetch(`${source}/${file}`);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${file}: ${response.status} ${response.statusText}`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  await writeFile(path.join(target, file), data);
+  console.log(`  ${file} (${data.length} bytes)`);
+  return data;
+};
+
+for (const { name, source } of MODELS) {
+  const target = path.resolve("public/models", name);
+  await mkdir(target, { recursive: true });
+  console.log(`Fetching ${name} into ${target}`);
+
+  const manifest = JSON.parse((await download(source, target, "model.json")).toString("utf8"));
+  const shards = manifest.weightsManifest.flatMap((group) => group.paths);
+
+  for (const shard of shards) {
+    await download(source, target, shard);
+  }
+}
+
+console.log("Done. Bump VITE_MODEL_VERSION / VITE_DETECTOR_VERSION if the weights changed.");
@@ -0,0 +1,62 @@
+// Writes src/data/calibrationSamples.json, the reference set the confidence
+// temperatures are fitted on. The samples are synthetic: scores are drawn
+// around the true category with a share of confusable ones, mimicking how the
+// model and the color heuristic err. Replace them with scores recorded from
+// labelled photos when such a set is available.
+// Run with `node scripts/generate-calibration-samples.mjs`.
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const WASTE_TYPES = ["organic", "recyclable", "electronic", "general"];
+
+// Per source: samples per category and how often the wrong category scores highest
+const SOURCES = [
+  { source: "model", perCategory: 25, confusion: 0.3 },
+  { source: "heuristic", perCategory: 15, confusion: 0.45 },
+];
+
+// Seeded so the file only changes when this script does
+const createRandom = (seed) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const random = createRandom(11);
+const uniform = (min, max) => min + random() * (max - min);
+const pick = (items) => items[Math.floor(random() * items.length)];
+const round = (value) => Math.round(value * 1000) / 1000;
+
+const createSample = (source, label, confusion) => {
+  const scores = Object.fromEntries(WASTE_TYPES.map((type) => [type, uniform(0.01, 0.12)]));
+  const other = pick(WASTE_TYPES.filter((type) => type !== label));
+
+  if (random() < confusion) {
+    scores[other] += uniform(0.2, 0.6);
+    scores[label] += uniform(0, 0.3);
+  } else {
+    scores[label] += uniform(0.15, 0.6);
+    scores[other] += uniform(0, 0.3);
+  }
+
+  // Model scores are shares of MobileNet's probability mass, the rest goes
+  // to labels outside the waste categories
+  if (source === "model") {
+    const total = WASTE_TYPES.reduce((sum, type) => sum + scores[type], 0);
+    const wasteMass = uniform(0.3, 0.9);
+    WASTE_TYPES.forEach((type) => {
+      scores[type] = (scores[type] / total) * wasteMass;
+    });
+  }
+
+  return { source, label, scores: Object.fromEntries(WASTE_TYPES.map((type) => [type, round(scores[type])])) };
+};
+
+const samples = SOURCES.flatMap(({ source, perCategory, confusion }) =>
+  WASTE_TYPES.flatMap((label) => Array.from({ length: perCategory }, () => createSample(source, label, confusion)))
+);
+
+const target = path.resolve("src/data/calibrationSamples.json");
+await writeFile(target, `[\n${samples.map((sample) => `  ${JSON.stringify(sample)}`).join(",\n")}\n]\n`);
+console.log(`Wrote ${samples.length} samples to ${target}`);
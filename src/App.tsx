@@ -1,28 +1,41 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Navigation from "@/components/ui/navigation";
+import CollectionReminders from "@/components/CollectionReminders";
+import ConnectionStatus from "@/components/ConnectionStatus";
+import { queryClient } from "@/lib/queryClient";
 import Home from "./pages/Home";
 import SegregationGuide from "./pages/SegregationGuide";
+import GuideItem from "./pages/GuideItem";
 import ImageUpload from "./pages/ImageUpload";
+import History from "./pages/History";
+import Locator from "./pages/Locator";
+import Schedule from "./pages/Schedule";
+import Settings from "./pages/Settings";
 import Contact from "./pages/Contact";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <CollectionReminders />
       <BrowserRouter>
         <Navigation />
+        <ConnectionStatus />
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/guide" element={<SegregationGuide />} />
+          <Route path="/guide/:itemId" element={<GuideItem />} />
           <Route path="/upload" element={<ImageUpload />} />
+          <Route path="/locator" element={<Locator />} />
+          <Route path="/schedule" element={<Schedule />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/settings" element={<Settings />} />
           <Route path="/contact" element={<Contact />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
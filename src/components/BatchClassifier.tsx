@@ -0,0 +1,237 @@
+import { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ArrowUpDown, FolderOpen, Images, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { getDroppedFiles } from "@/lib/fileEntries";
+import { partitionImageFiles } from "@/lib/imageValidation";
+import { getCategoryColor, getCategoryIcon, getCategoryTitle } from "@/lib/categoryDisplay";
+import { isWasteBin, WASTE_CATEGORY_IDS } from "@/data/wasteTaxonomy";
+import type { ClassificationQueue, QueueItem } from "@/hooks/use-classification-queue";
+import type { WasteDetectionResult } from "@/services/wasteDetection";
+
+type SortKey = "name" | "category" | "confidence" | "status";
+type SortDirection = "asc" | "desc";
+
+const CATEGORIES: WasteDetectionResult["category"][] = [...WASTE_CATEGORY_IDS, "uncertain"];
+
+const STATUS_LABELS: Record<QueueItem["status"], string> = {
+  pending: "Queued",
+  processing: "Analyzing",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled"
+};
+
+const compareItems = (a: QueueItem, b: QueueItem, key: SortKey) => {
+  switch (key) {
+    case "name": return a.file.name.localeCompare(b.file.name);
+    case "category": return (a.result?.category ?? "").localeCompare(b.result?.category ?? "");
+    case "confidence": return (a.result?.confidence ?? -1) - (b.result?.confidence ?? -1);
+    case "status": return STATUS_LABELS[a.status].localeCompare(STATUS_LABELS[b.status]);
+  }
+};
+
+interface BatchClassifierProps {
+  queue: ClassificationQueue;
+}
+
+// Classify a whole set of photos, e.g. everything from a cleanup drive
+const BatchClassifier = ({ queue }: BatchClassifierProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>("name");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const addFiles = (files: File[]) => {
+    // Folders often contain other files (.DS_Store, videos), skip anything we cannot classify
+    const { valid: images, invalid } = partitionImageFiles(files);
+    const skipped = invalid.length;
+
+    if (images.length > 0) {
+      queue.enqueue(images);
+    }
+
+    toast({
+      title: images.length > 0 ? `Queued ${images.length} ${images.length === 1 ? "image" : "images"}` : "No Images Found",
+      description: skipped > 0 ? `Skipped ${skipped} ${skipped === 1 ? "file" : "files"}: ${invalid[0].error.description}` : undefined,
+      variant: images.length > 0 ? "default" : "destructive"
+    });
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+
+    // Reading a dropped folder can fail part way, e.g. when it is removed
+    let files: File[];
+    try {
+      files = await getDroppedFiles(event.dataTransfer);
+    } catch (error) {
+      console.error('Unable to read dropped files:', error);
+      toast({
+        title: "Unable to Read Files",
+        description: "The dropped files or folder could not be opened. Try selecting them instead.",
+        variant: "destructive"
+      });
+      return;
+    }
+    addFiles(files);
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection("asc");
+    }
+  };
+
+  const sortedItems = useMemo(() => {
+    const sorted = [...queue.items].sort((a, b) => compareItems(a, b, sortKey));
+    return sortDirection === "asc" ? sorted : sorted.reverse();
+  }, [queue.items, sortKey, sortDirection]);
+
+  const totals = useMemo(() => {
+    const counts = Object.fromEntries(CATEGORIES.map(category => [category, 0])) as Record<WasteDetectionResult["category"], number>;
+    queue.items.forEach(item => {
+      if (item.result) counts[item.result.category]++;
+    });
+    return counts;
+  }, [queue.items]);
+
+  const progress = queue.total > 0 ? (queue.completed / queue.total) * 100 : 0;
+
+  const SortIcon = ({ column }: { column: SortKey }) => {
+    if (sortKey !== column) return <ArrowUpDown className="w-3 h-3" />;
+    return sortDirection === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  const SortableHead = ({ column, children }: { column: SortKey; children: React.ReactNode }) => (
+    <TableHead>
+      <button onClick={() => toggleSort(column)} className="flex items-center gap-1 hover:text-foreground">
+        {children}
+        <SortIcon column={column} />
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "border-2 border-dashed rounded-lg p-6 text-center transition-colors",
+          isDragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+        )}
+      >
+        <FolderOpen className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground mb-4">
+          Drop a folder or several photos here to classify them all
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.heic,.heif"
+          multiple
+          onChange={handleFileInput}
+          className="hidden"
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 mx-auto">
+          <Images className="w-4 h-4" />
+          Choose Photos
+        </Button>
+      </div>
+
+      {queue.total > 0 && (
+        <>
+          {/* Progress */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {queue.completed} of {queue.total} analyzed
+              </span>
+              <div className="flex gap-2">
+                {queue.isProcessing ? (
+                  <Button variant="ghost" size="sm" onClick={queue.cancel} className="flex items-center gap-1">
+                    <X className="w-4 h-4" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={queue.clear}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Progress value={progress} className="h-2" />
+          </div>
+
+          {/* Per-category totals, the rarer categories only once they occur */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {CATEGORIES.filter(category => isWasteBin(category) || category === "uncertain" || totals[category] > 0).map(category => (
+              <div key={category} className="p-3 rounded-lg bg-muted/30 text-center">
+                <div className="text-2xl mb-1">{getCategoryIcon(category)}</div>
+                <div className="text-2xl font-bold">{totals[category]}</div>
+                <div className="text-xs text-muted-foreground">{getCategoryTitle(category)}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Results */}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <SortableHead column="name">File</SortableHead>
+                <SortableHead column="category">Category</SortableHead>
+                <SortableHead column="confidence">Confidence</SortableHead>
+                <SortableHead column="status">Status</SortableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedItems.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium max-w-[12rem] truncate" title={item.file.name}>
+                    {item.file.name}
+                  </TableCell>
+                  <TableCell>
+                    {item.result ? (
+                      <Badge className={getCategoryColor(item.result.category)}>
+                        {getCategoryTitle(item.result.category)}
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {item.result ? `${Math.round(item.result.confidence * 100)}%` : "-"}
+                  </TableCell>
+                  <TableCell className={cn(item.status === "error" && "text-destructive")} title={item.error}>
+                    {STATUS_LABELS[item.status]}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchClassifier;
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getBinColor } from "@/lib/categoryDisplay";
+import type { RegionBin, RegionProfile } from "@/services/regionProfiles";
+
+interface BinAdviceProps {
+  bin: RegionBin;
+  profile: RegionProfile;
+}
+
+// Which of the region's bins an item goes in and how it is collected
+const BinAdvice = ({ bin, profile }: BinAdviceProps) => {
+  const colors = getBinColor(bin.color);
+
+  return (
+    <div className="p-4 rounded-lg border border-border space-y-3">
+      <div className="flex items-center gap-3">
+        <span className={cn("w-8 h-8 rounded-md flex-shrink-0", colors.swatch)} />
+        <div className="min-w-0">
+          <p className="text-xs text-muted-foreground">Put it in ({profile.name}):</p>
+          <h4 className="font-semibold">{bin.name}</h4>
+        </div>
+        {bin.dropOff && (
+          <Badge className={cn("ml-auto", colors.badge)}>
+            <MapPin className="w-3 h-3 mr-1" />
+            Drop-off
+          </Badge>
+        )}
+      </div>
+      <ul className="text-sm space-y-1">
+        {bin.instructions.map(instruction => (
+          <li key={instruction}>• {instruction}</li>
+        ))}
+      </ul>
+      {bin.collection && (
+        <p className="text-xs text-muted-foreground">{bin.collection}</p>
+      )}
+    </div>
+  );
+};
+
+export default BinAdvice;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Camera, SwitchCamera, X, RefreshCw } from "lucide-react";
+import { useCamera } from "@/hooks/use-camera";
+import { getCategoryColor, getCategoryIcon, getCategoryTitle } from "@/lib/categoryDisplay";
+import { wasteDetectionService, type WasteDetectionResult } from "@/services/wasteDetection";
+
+// How often live mode classifies a frame. Each frame waits for the previous
+// one to finish, so slow devices simply classify less often.
+const LIVE_INTERVAL_MS = 1500;
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+const CameraCapture = ({ onCapture, onClose }: CameraCaptureProps) => {
+  const { videoRef, isActive, error, hasMultipleCameras, start, switchCamera, capture } = useCamera();
+  const [isLive, setIsLive] = useState(false);
+  const [liveResult, setLiveResult] = useState<WasteDetectionResult | null>(null);
+
+  // start is stable, so this runs once; switching cameras restarts the
+  // stream itself
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  useEffect(() => {
+    if (!isLive || !isActive) {
+      setLiveResult(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    let timer: number | undefined;
+
+    const classifyFrame = async () => {
+      const video = videoRef.current;
+
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        try {
+          const result = await wasteDetectionService.detectWaste(video, { signal: controller.signal });
+          setLiveResult(result);
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error('Live classification failed:', err);
+        }
+      }
+
+      if (!controller.signal.aborted) {
+        timer = window.setTimeout(classifyFrame, LIVE_INTERVAL_MS);
+      }
+    };
+
+    classifyFrame();
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [isLive, isActive, videoRef]);
+
+  const handleCapture = async () => {
+    const file = await capture();
+    if (file) onCapture(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative rounded-lg overflow-hidden bg-black aspect-video">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className="w-full h-full object-cover"
+        />
+
+        {!isActive && !error && (
+          <div className="absolute inset-0 flex items-center justify-center text-white">
+            <RefreshCw className="w-8 h-8 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-white text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Live classification overlay */}
+        {isLive && liveResult && (
+          <div className="absolute top-3 left-3 right-3 flex items-center justify-between gap-2">
+            <Badge className={getCategoryColor(liveResult.category)}>
+              {getCategoryIcon(liveResult.category)} {getCategoryTitle(liveResult.category)}
+            </Badge>
+            <Badge variant="secondary">
+              {Math.round(liveResult.confidence * 100)}%
+            </Badge>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="live-mode" checked={isLive} onCheckedChange={setIsLive} disabled={!isActive} />
+          <Label htmlFor="live-mode" className="text-sm">Live detection</Label>
+        </div>
+        <div className="flex gap-2">
+          {hasMultipleCameras && (
+            <Button variant="outline" size="icon" onClick={switchCamera} aria-label="Switch camera">
+              <SwitchCamera className="w-4 h-4" />
+            </Button>
+          )}
+          <Button variant="outline" size="icon" onClick={onClose} aria-label="Close camera">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Button onClick={handleCapture} disabled={!isActive} className="w-full flex items-center gap-2">
+        <Camera className="w-4 h-4" />
+        Capture Photo
+      </Button>
+    </div>
+  );
+};
+
+export default CameraCapture;
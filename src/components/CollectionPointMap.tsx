@@ -0,0 +1,118 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { getPointKindDisplay } from "@/lib/categoryDisplay";
+import { distanceKm, type GeoPoint, type NearbyPoint } from "@/services/collectionPoints";
+
+interface CollectionPointMapProps {
+  points: NearbyPoint[];
+  origin: GeoPoint | null;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 400;
+const PADDING = 40;
+// Half the span shown around a lone point, in degrees
+const MIN_SPAN = 0.01;
+
+// Scale bar lengths to pick from, in kilometres
+const SCALE_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+// Points drawn on a plain projection of their own bounding box. There are no
+// map tiles, so the map works offline and shows where points are relative to
+// each other and to the user.
+const CollectionPointMap = ({ points, origin, selectedId, onSelect }: CollectionPointMapProps) => {
+  const projection = useMemo(() => {
+    const places: GeoPoint[] = [...points.map(({ point }) => point), ...(origin ? [origin] : [])];
+    if (places.length === 0) return null;
+
+    const lats = places.map(place => place.lat);
+    const lons = places.map(place => place.lon);
+    const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+    const midLon = (Math.min(...lons) + Math.max(...lons)) / 2;
+    // A degree of longitude shrinks away from the equator
+    const lonScale = Math.cos(midLat * Math.PI / 180);
+    const latSpan = Math.max(Math.max(...lats) - Math.min(...lats), MIN_SPAN);
+    const lonSpan = Math.max((Math.max(...lons) - Math.min(...lons)) * lonScale, MIN_SPAN);
+    const scale = Math.min((WIDTH - PADDING * 2) / lonSpan, (HEIGHT - PADDING * 2) / latSpan);
+
+    const project = (place: GeoPoint) => ({
+      x: WIDTH / 2 + (place.lon - midLon) * lonScale * scale,
+      y: HEIGHT / 2 - (place.lat - midLat) * scale
+    });
+
+    // Kilometres per pixel, measured along the middle of the map
+    const kmPerPixel = distanceKm({ lat: midLat, lon: midLon }, { lat: midLat + 1, lon: midLon }) / scale;
+    const scaleKm = [...SCALE_STEPS].reverse().find(step => step / kmPerPixel <= WIDTH / 4) ?? SCALE_STEPS[0];
+
+    return { project, scaleKm, scalePixels: scaleKm / kmPerPixel };
+  }, [points, origin]);
+
+  if (!projection) {
+    return (
+      <p className="text-muted-foreground text-center py-12">
+        No collection points to show on the map.
+      </p>
+    );
+  }
+
+  const { project, scaleKm, scalePixels } = projection;
+  const originPosition = origin && project(origin);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto rounded-lg border border-border bg-muted/30" role="img" aria-label="Map of collection points">
+      {/* Grid */}
+      {[1, 2, 3, 4, 5].map(line => (
+        <line key={`v${line}`} x1={line * WIDTH / 6} y1={0} x2={line * WIDTH / 6} y2={HEIGHT} className="stroke-border" strokeDasharray="4 4" />
+      ))}
+      {[1, 2, 3].map(line => (
+        <line key={`h${line}`} x1={0} y1={line * HEIGHT / 4} x2={WIDTH} y2={line * HEIGHT / 4} className="stroke-border" strokeDasharray="4 4" />
+      ))}
+
+      {/* Origin */}
+      {originPosition && (
+        <g>
+          <circle cx={originPosition.x} cy={originPosition.y} r={14} className="fill-primary/20" />
+          <circle cx={originPosition.x} cy={originPosition.y} r={6} className="fill-primary stroke-background" strokeWidth={2} />
+        </g>
+      )}
+
+      {/* Points, the selected one drawn last so it stays on top */}
+      {[...points]
+        .sort((a, b) => Number(a.point.id === selectedId) - Number(b.point.id === selectedId))
+        .map(({ point }) => {
+          const { x, y } = project(point);
+          const isSelected = point.id === selectedId;
+
+          return (
+            <g key={point.id} onClick={() => onSelect(point.id)} className="cursor-pointer">
+              <title>{point.name}</title>
+              <circle
+                cx={x}
+                cy={y}
+                r={isSelected ? 10 : 7}
+                className={cn(getPointKindDisplay(point.kind).marker, "stroke-background")}
+                strokeWidth={2}
+              />
+              {isSelected && (
+                <text x={x} y={y - 16} textAnchor="middle" className="fill-foreground text-xs font-semibold">
+                  {point.name}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+      {/* Scale bar */}
+      <g transform={`translate(${PADDING / 2}, ${HEIGHT - PADDING / 2})`}>
+        <line x1={0} y1={0} x2={scalePixels} y2={0} className="stroke-foreground" strokeWidth={2} />
+        <text x={0} y={-6} className="fill-muted-foreground text-xs">
+          {scaleKm < 1 ? `${scaleKm * 1000} m` : `${scaleKm} km`}
+        </text>
+      </g>
+    </svg>
+  );
+};
+
+export default CollectionPointMap;
@@ -0,0 +1,9 @@
+import { useCollectionReminders } from "@/hooks/use-collection-reminders";
+
+// Runs the collection reminder timer for as long as the app is open
+const CollectionReminders = () => {
+  useCollectionReminders();
+  return null;
+};
+
+export default CollectionReminders;
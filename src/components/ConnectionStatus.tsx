@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { CloudUpload, RefreshCw, WifiOff } from "lucide-react";
+import { useOnlineStatus, useUpdateReady } from "@/hooks/use-pwa";
+import { useQueuedAnalysisCount, useSyncOnReconnect } from "@/hooks/use-sync-queue";
+
+// A strip under the navigation when the app is offline, has analyses waiting
+// for the server or has downloaded a new version. Also runs the sync.
+const ConnectionStatus = () => {
+  useSyncOnReconnect();
+  const isOnline = useOnlineStatus();
+  const update = useUpdateReady();
+  const { data: queuedCount = 0 } = useQueuedAnalysisCount();
+  const queued = queuedCount > 0 && `${queuedCount} ${queuedCount === 1 ? "analysis" : "analyses"} waiting to sync with the server`;
+
+  if (update.isReady) {
+    return (
+      <div className="bg-primary text-primary-foreground text-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-center gap-3">
+          <span>A new version of Clean Bin is available.</span>
+          <Button size="sm" variant="secondary" onClick={update.apply}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reload
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isOnline) {
+    return (
+      <div className="bg-muted text-muted-foreground text-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-center gap-2">
+          <WifiOff className="w-4 h-4 flex-shrink-0" />
+          <span>You're offline. Photos are analyzed on this device{queued ? `, ${queued}` : ""}.</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (queued) {
+    return (
+      <div className="bg-muted text-muted-foreground text-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-center gap-2">
+          <CloudUpload className="w-4 h-4 flex-shrink-0" />
+          <span>{queued}.</span>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default ConnectionStatus;
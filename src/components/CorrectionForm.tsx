@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check } from "lucide-react";
+import { getCategoryIcon, getCategoryTitle } from "@/lib/categoryDisplay";
+import { WASTE_CATEGORY_IDS } from "@/data/wasteTaxonomy";
+import type { WasteCategory } from "@/services/wasteDetection";
+
+interface CorrectionFormProps {
+  // The category the detector chose, preselected out of the options
+  detectedCategory: WasteCategory | "uncertain";
+  isSaving?: boolean;
+  onSubmit: (category: WasteCategory, itemName: string) => void;
+  onCancel: () => void;
+}
+
+// Lets the user tell us the real category and name of a misclassified item
+const CorrectionForm = ({ detectedCategory, isSaving, onSubmit, onCancel }: CorrectionFormProps) => {
+  const [category, setCategory] = useState<WasteCategory | null>(null);
+  const [itemName, setItemName] = useState("");
+
+  const canSubmit = category !== null && itemName.trim() !== "" && !isSaving;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (category && canSubmit) {
+      onSubmit(category, itemName.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Which bin does it belong in?</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {WASTE_CATEGORY_IDS.map(option => (
+            <Button
+              key={option}
+              type="button"
+              variant={category === option ? "default" : "outline"}
+              disabled={option === detectedCategory}
+              onClick={() => setCategory(option)}
+              className="flex flex-col h-auto py-2 gap-1"
+            >
+              <span className="text-xl">{getCategoryIcon(option)}</span>
+              <span className="text-xs">{getCategoryTitle(option)}</span>
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="correction-item">What is the item?</Label>
+        <Input
+          id="correction-item"
+          value={itemName}
+          onChange={event => setItemName(event.target.value)}
+          placeholder="e.g. Milk carton"
+          maxLength={80}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={!canSubmit} className="flex items-center gap-2">
+          <Check className="w-4 h-4" />
+          Save Correction
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CorrectionForm;
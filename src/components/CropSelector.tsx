@@ -0,0 +1,113 @@
+import { useRef } from "react";
+import { cn } from "@/lib/utils";
+import type { CropRegion } from "@/services/imagePreprocessing";
+
+// Smallest selection allowed, as a fraction of each side
+const MIN_SIZE = 0.1;
+
+type DragMode = "move" | "nw" | "ne" | "sw" | "se";
+
+const HANDLES: { mode: Exclude<DragMode, "move">; className: string }[] = [
+  { mode: "nw", className: "-left-1.5 -top-1.5 cursor-nwse-resize" },
+  { mode: "ne", className: "-right-1.5 -top-1.5 cursor-nesw-resize" },
+  { mode: "sw", className: "-left-1.5 -bottom-1.5 cursor-nesw-resize" },
+  { mode: "se", className: "-right-1.5 -bottom-1.5 cursor-nwse-resize" }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Apply a pointer movement (as fractions of the image) to the selection
+const applyDrag = (start: CropRegion, mode: DragMode, dx: number, dy: number): CropRegion => {
+  if (mode === "move") {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height)
+    };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+
+  if (mode === "nw" || mode === "sw") left = clamp(left + dx, 0, right - MIN_SIZE);
+  if (mode === "ne" || mode === "se") right = clamp(right + dx, left + MIN_SIZE, 1);
+  if (mode === "nw" || mode === "ne") top = clamp(top + dy, 0, bottom - MIN_SIZE);
+  if (mode === "sw" || mode === "se") bottom = clamp(bottom + dy, top + MIN_SIZE, 1);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+interface CropSelectorProps {
+  imageSrc: string;
+  region: CropRegion;
+  onChange: (region: CropRegion) => void;
+  className?: string;
+}
+
+// The photo with a draggable, resizable rectangle marking the part to analyze
+const CropSelector = ({ imageSrc, region, onChange, className }: CropSelectorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; start: CropRegion } | null>(null);
+
+  const startDrag = (mode: DragMode) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { mode, startX: event.clientX, startY: event.clientY, start: region };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+
+    const dx = (event.clientX - drag.startX) / bounds.width;
+    const dy = (event.clientY - drag.startY) / bounds.height;
+    onChange(applyDrag(drag.start, drag.mode, dx, dy));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div ref={containerRef} className={cn("relative inline-block select-none touch-none", className)}>
+      <img
+        src={imageSrc}
+        alt="Uploaded waste"
+        draggable={false}
+        className="block max-w-full max-h-80 rounded-lg"
+      />
+      <div
+        role="region"
+        aria-label="Area to analyze"
+        onPointerDown={startDrag("move")}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        className="absolute border-2 border-primary cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+        style={{
+          left: `${region.x * 100}%`,
+          top: `${region.y * 100}%`,
+          width: `${region.width * 100}%`,
+          height: `${region.height * 100}%`
+        }}
+      >
+        {HANDLES.map(handle => (
+          <div
+            key={handle.mode}
+            onPointerDown={startDrag(handle.mode)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            className={cn("absolute w-3 h-3 rounded-full bg-primary border-2 border-background", handle.className)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CropSelector;
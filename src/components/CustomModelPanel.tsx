@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Brain, RefreshCw, RotateCcw, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MIN_TRAINING_EXAMPLES } from "@/services/correctionStore";
+import {
+  DEFAULT_CLASSIFIER,
+  wasteDetectionService,
+  type CustomHeadInfo,
+  type TrainingProgress
+} from "@/services/wasteDetection";
+
+interface CustomModelPanelProps {
+  correctionCount: number;
+}
+
+// Train, switch on and reset the classifier learned from the user's corrections
+const CustomModelPanel = ({ correctionCount }: CustomModelPanelProps) => {
+  const [info, setInfo] = useState<CustomHeadInfo | null>(() => wasteDetectionService.getCustomHeadInfo());
+  const [isEnabled, setIsEnabled] = useState(() => wasteDetectionService.getClassifierSettings().backend === "custom");
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+  const trainingController = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const canTrain = correctionCount >= MIN_TRAINING_EXAMPLES && !isTraining;
+
+  const train = async () => {
+    const controller = new AbortController();
+    trainingController.current = controller;
+    setIsTraining(true);
+    setProgress(null);
+
+    try {
+      const trained = await wasteDetectionService.trainCustomHead({
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      setInfo(trained);
+      setIsEnabled(true);
+      toast({
+        title: "Personal Model Trained",
+        description: `Learned from ${trained.examples} corrections and switched on`
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      console.error('Custom classifier training failed:', error);
+      toast({
+        title: "Training Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      trainingController.current = null;
+      setIsTraining(false);
+      setProgress(null);
+    }
+  };
+
+  const toggleEnabled = (enabled: boolean) => {
+    wasteDetectionService.setClassifierSettings({ backend: enabled ? "custom" : DEFAULT_CLASSIFIER });
+    setIsEnabled(enabled);
+  };
+
+  const reset = async () => {
+    try {
+      await wasteDetectionService.resetCustomHead();
+      setInfo(null);
+      setIsEnabled(false);
+      toast({ title: "Personal Model Removed" });
+    } catch (error) {
+      console.error('Unable to remove custom classifier:', error);
+      toast({ title: "Reset Failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Train a classifier on your own corrections so it learns the items you actually throw away.
+        Training happens on this device and your photos never leave it.
+      </p>
+
+      {info && (
+        <div className="p-4 rounded-lg bg-muted/30 space-y-3">
+          <p className="text-sm">
+            Trained on {info.examples} corrections on {format(info.trainedAt, "MMM d, yyyy")}
+            {" "}({Math.round(info.accuracy * 100)}% accuracy on those examples)
+          </p>
+          <div className="flex items-center gap-3">
+            <Switch id="use-custom-head" checked={isEnabled} onCheckedChange={toggleEnabled} />
+            <Label htmlFor="use-custom-head">Use my personal model for analysis</Label>
+          </div>
+        </div>
+      )}
+
+      {isTraining && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>{progress ? `Epoch ${progress.epoch} of ${progress.epochs}` : "Preparing your photos..."}</span>
+            {progress && (
+              <span className="text-muted-foreground">{Math.round(progress.accuracy * 100)}% accuracy</span>
+            )}
+          </div>
+          <Progress value={progress ? (progress.epoch / progress.epochs) * 100 : 0} className="h-2" />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {isTraining ? (
+          <Button variant="outline" onClick={() => trainingController.current?.abort()} className="flex items-center gap-2">
+            <X className="w-4 h-4" />
+            Stop Training
+          </Button>
+        ) : (
+          <Button onClick={train} disabled={!canTrain} className="flex items-center gap-2">
+            {info ? <RefreshCw className="w-4 h-4" /> : <Brain className="w-4 h-4" />}
+            {info ? "Retrain" : "Train"} on {correctionCount} {correctionCount === 1 ? "Correction" : "Corrections"}
+          </Button>
+        )}
+        {info && !isTraining && (
+          <Button variant="ghost" onClick={reset} className="flex items-center gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Remove Model
+          </Button>
+        )}
+      </div>
+
+      {correctionCount < MIN_TRAINING_EXAMPLES && (
+        <p className="text-xs text-muted-foreground">
+          Mark at least {MIN_TRAINING_EXAMPLES} wrong results with "This is wrong", covering at least two bins, to start training.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CustomModelPanel;
@@ -0,0 +1,110 @@
+import { Badge } from "@/components/ui/badge";
+import GuideLabel from "@/components/GuideLabel";
+import { cn } from "@/lib/utils";
+import { getCategoryBoxColor, getCategoryColor, getCategoryIcon, getCategoryTitle } from "@/lib/categoryDisplay";
+import { isWasteBin, WASTE_CATEGORY_IDS } from "@/data/wasteTaxonomy";
+import type { DetectedObject } from "@/services/wasteDetection";
+
+interface DetectionOverlayProps {
+  imageSrc: string;
+  objects: DetectedObject[];
+  className?: string;
+}
+
+// The photo with a labelled box drawn around every detected item
+export const DetectionOverlay = ({ imageSrc, objects, className }: DetectionOverlayProps) => (
+  <div className={cn("relative inline-block", className)}>
+    <img
+      src={imageSrc}
+      alt="Uploaded waste"
+      className="block max-w-full max-h-48 rounded-lg"
+    />
+    {objects.map((object, index) => {
+      const [x, y, width, height] = object.bbox;
+      const colors = getCategoryBoxColor(object.category);
+
+      return (
+        <div
+          key={index}
+          className={cn("absolute border-2 rounded-sm pointer-events-none", colors.border)}
+          style={{
+            left: `${x * 100}%`,
+            top: `${y * 100}%`,
+            width: `${width * 100}%`,
+            height: `${height * 100}%`
+          }}
+        >
+          <span className={cn("absolute left-0 -top-5 px-1 rounded-sm text-xs whitespace-nowrap capitalize", colors.label)}>
+            {object.label}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface DetectionSummaryProps {
+  objects: DetectedObject[];
+}
+
+// Legend for the box colors plus the items that go into each category
+export const DetectionSummary = ({ objects }: DetectionSummaryProps) => {
+  if (objects.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-4">
+        No individual items were recognised. Try the whole-image analysis instead.
+      </p>
+    );
+  }
+
+  // The main bins always, the rarer categories only when something was found
+  const categories = WASTE_CATEGORY_IDS.filter(category =>
+    isWasteBin(category) || objects.some(object => object.category === category)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 justify-center">
+        {categories.map(category => (
+          <div key={category} className="flex items-center gap-2 text-sm">
+            <span className={cn("w-4 h-4 rounded-sm border-2", getCategoryBoxColor(category).border)} />
+            {getCategoryTitle(category)}
+          </div>
+        ))}
+      </div>
+
+      {/* Per-category summary */}
+      <div className="grid md:grid-cols-3 gap-4">
+        {categories.map(category => {
+          const categoryObjects = objects.filter(object => object.category === category);
+
+          return (
+            <div key={category} className="p-4 rounded-lg bg-muted/30">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold">
+                  {getCategoryIcon(category)} {getCategoryTitle(category)}
+                </h4>
+                <Badge className={getCategoryColor(category)}>
+                  {categoryObjects.length} {categoryObjects.length === 1 ? "item" : "items"}
+                </Badge>
+              </div>
+              {categoryObjects.length > 0 ? (
+                <ul className="space-y-1">
+                  {categoryObjects.map((object, index) => (
+                    <li key={index} className="flex justify-between text-sm">
+                      <GuideLabel label={object.label} placement={object} />
+                      <span className="text-muted-foreground">{Math.round(object.score * 100)}%</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing for this bin</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { Link } from "react-router-dom";
+import { findCatalogueItem, type LabelPlacement } from "@/data/itemCatalogue";
+
+interface GuideLabelProps {
+  label: string;
+  placement?: LabelPlacement;
+}
+
+// A classifier label that links to its guide entry when there is one
+const GuideLabel = ({ label, placement }: GuideLabelProps) => {
+  const item = findCatalogueItem(label, placement);
+
+  if (!item) {
+    return <span className="text-sm capitalize">{label}</span>;
+  }
+
+  return (
+    <Link
+      to={`/guide/${item.id}`}
+      title={`Guide: ${item.name}`}
+      className="text-sm capitalize text-primary hover:underline"
+    >
+      {label}
+    </Link>
+  );
+};
+
+export default GuideLabel;
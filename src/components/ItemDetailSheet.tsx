@@ -0,0 +1,61 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ArrowRight } from "lucide-react";
+import ItemGuidance from "@/components/ItemGuidance";
+import type { CatalogueItem } from "@/data/itemCatalogue";
+import { getCategoryColor } from "@/lib/categoryDisplay";
+import type { RegionProfile } from "@/services/regionProfiles";
+
+interface ItemDetailSheetProps {
+  item: CatalogueItem | null;
+  profile: RegionProfile;
+  onClose: () => void;
+}
+
+// Quick look at a catalogue item without leaving the guide
+const ItemDetailSheet = ({ item, profile, onClose }: ItemDetailSheetProps) => (
+  <Sheet open={item !== null} onOpenChange={isOpen => !isOpen && onClose()}>
+    <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+      {item && (
+        <div className="space-y-6">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2 text-2xl">
+              <span>{item.path.category.icon}</span>
+              {item.name}
+            </SheetTitle>
+            <SheetDescription>
+              {item.path.category.name} › {item.path.subcategory.name} › {item.path.material.name}
+            </SheetDescription>
+            <div>
+              <Badge className={getCategoryColor(item.path.category.id)}>{item.path.category.name}</Badge>
+            </div>
+          </SheetHeader>
+
+          <ItemGuidance item={item} profile={profile} />
+
+          {item.aliases.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2">Also known as</h4>
+              <div className="flex flex-wrap gap-2">
+                {item.aliases.map(alias => (
+                  <Badge key={alias} variant="outline">{alias}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Link to={`/guide/${item.id}`} className="block">
+            <Button variant="outline" className="w-full">
+              Open full page
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          </Link>
+        </div>
+      )}
+    </SheetContent>
+  </Sheet>
+);
+
+export default ItemDetailSheet;
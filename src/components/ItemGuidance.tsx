@@ -0,0 +1,88 @@
+import { AlertTriangle, CheckCircle, Info, Leaf, ShieldAlert } from "lucide-react";
+import BinAdvice from "@/components/BinAdvice";
+import { getItemGuidance, type CatalogueItem } from "@/data/itemCatalogue";
+import type { Compostability } from "@/data/materialGuidance";
+import { resolveBin, type RegionProfile } from "@/services/regionProfiles";
+
+interface ItemGuidanceProps {
+  item: CatalogueItem;
+  profile: RegionProfile;
+}
+
+const COMPOST_LABELS: Record<Compostability, string> = {
+  home: "Compostable at home",
+  industrial: "Compostable only in municipal or industrial composting",
+  no: "Not compostable"
+};
+
+// Bin, preparation, hazards and composting advice for a catalogue item
+const ItemGuidance = ({ item, profile }: ItemGuidanceProps) => {
+  const bin = resolveBin(profile, {
+    category: item.path.category.id,
+    subcategory: item.path.subcategory.id,
+    material: item.path.material.id
+  });
+  const guidance = getItemGuidance(item);
+
+  return (
+    <div className="space-y-6">
+      {bin && <BinAdvice bin={bin} profile={profile} />}
+
+      {item.note && (
+        <div className="flex gap-2 p-3 bg-muted/50 rounded-lg text-sm">
+          <Info className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary" />
+          <p>{item.note}</p>
+        </div>
+      )}
+
+      {guidance.preparation.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2 flex items-center gap-2">
+            <CheckCircle className="w-4 h-4 text-green-600" />
+            Before you throw it away
+          </h4>
+          <ol className="text-sm space-y-1 list-decimal list-inside">
+            {guidance.preparation.map(step => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {guidance.hazards.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2 flex items-center gap-2">
+            <ShieldAlert className="w-4 h-4 text-red-600" />
+            Hazards
+          </h4>
+          <ul className="text-sm space-y-1">
+            {guidance.hazards.map(hazard => (
+              <li key={hazard}>• {hazard}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {guidance.mistakes.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+            Common mistakes
+          </h4>
+          <ul className="text-sm space-y-1">
+            {guidance.mistakes.map(mistake => (
+              <li key={mistake}>• {mistake}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="flex items-center gap-2 text-sm">
+        <Leaf className={guidance.compost === "no" ? "w-4 h-4 text-muted-foreground" : "w-4 h-4 text-green-600"} />
+        {COMPOST_LABELS[guidance.compost]}
+      </p>
+    </div>
+  );
+};
+
+export default ItemGuidance;
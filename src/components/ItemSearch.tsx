@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Search } from "lucide-react";
+import { ITEM_CATALOGUE, type CatalogueItem } from "@/data/itemCatalogue";
+import { fuzzySearch } from "@/lib/fuzzySearch";
+import { getCategoryColor } from "@/lib/categoryDisplay";
+import { cn } from "@/lib/utils";
+
+interface ItemSearchProps {
+  onSelect: (item: CatalogueItem) => void;
+}
+
+const MAX_RESULTS = 12;
+
+// Command palette over the item catalogue, opened with the button or Ctrl/⌘+K
+const ItemSearch = ({ onSelect }: ItemSearchProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // cmdk's own filter only does substring matching, so ranking happens here
+  const results = useMemo(
+    () => fuzzySearch(ITEM_CATALOGUE, query, item => [item.name, ...item.aliases], MAX_RESULTS),
+    [query]
+  );
+
+  // Show which alias matched when the name itself does not contain the query
+  const matchedAlias = (item: CatalogueItem) => {
+    const needle = query.trim().toLowerCase();
+    if (item.name.toLowerCase().includes(needle)) return null;
+    return item.aliases.find(alias => alias.toLowerCase().includes(needle)) ?? null;
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setQuery("");
+  };
+
+  const selectItem = (item: CatalogueItem) => {
+    handleOpenChange(false);
+    onSelect(item);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="w-full max-w-xl justify-start text-muted-foreground"
+      >
+        <Search className="w-4 h-4 mr-2" />
+        Search {ITEM_CATALOGUE.length} items, e.g. "pizza box" or "batteries"
+        <kbd className="ml-auto hidden sm:inline-flex items-center rounded border bg-muted px-1.5 text-xs font-mono">
+          Ctrl K
+        </kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search items</DialogTitle>
+          <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="What do you want to throw away?"
+            />
+            <CommandList>
+              {query.trim() && <CommandEmpty>No items found. Try another name.</CommandEmpty>}
+              {results.map(({ item }) => {
+                const alias = matchedAlias(item);
+
+                return (
+                  <CommandItem key={item.id} value={item.id} onSelect={() => selectItem(item)}>
+                    <span className="mr-2">{item.path.category.icon}</span>
+                    <div className="min-w-0">
+                      <p className="truncate">{item.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {alias ? `Also called ${alias} · ` : ""}
+                        {item.path.material.name}
+                      </p>
+                    </div>
+                    <Badge className={cn("ml-auto", getCategoryColor(item.path.category.id))}>
+                      {item.path.category.name}
+                    </Badge>
+                  </CommandItem>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ItemSearch;
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Check, X } from "lucide-react";
+import { getTaxonomyCategory } from "@/data/wasteTaxonomy";
+import { getCategoryColor } from "@/lib/categoryDisplay";
+import { useRegionProfile } from "@/hooks/use-region-profile";
+import { resolveBin } from "@/services/regionProfiles";
+import type { WasteCategory } from "@/services/wasteDetection";
+
+interface SortingOutcome {
+  category: WasteCategory;
+  // Taxonomy subcategory whose materials are shown as examples, all of the
+  // category's materials when omitted
+  subcategory?: string;
+  title: string;
+  recommendations: string[];
+}
+
+type SortingStep = { next: string } | { outcome: SortingOutcome };
+
+interface SortingQuestion {
+  question: string;
+  hint: string;
+  yes: SortingStep;
+  no: SortingStep;
+}
+
+const QUESTIONS: Record<string, SortingQuestion> = {
+  food: {
+    question: "Is it food or other organic matter?",
+    hint: "Peels, leftovers, tea bags, coffee grounds, leaves and flowers",
+    yes: {
+      outcome: {
+        category: "wet",
+        title: "Wet Waste",
+        recommendations: [
+          "Drain any liquid first",
+          "Remove any packaging, stickers or rubber bands first",
+          "Consider composting it at home"
+        ]
+      }
+    },
+    no: { next: "sanitary" }
+  },
+  sanitary: {
+    question: "Is it a used diaper, sanitary pad, tissue or wipe?",
+    hint: "Anything single-use that has touched the body",
+    yes: {
+      outcome: {
+        category: "sanitary",
+        subcategory: "personal-hygiene",
+        title: "Sanitary Waste",
+        recommendations: getTaxonomyCategory("sanitary").recommendations
+      }
+    },
+    no: { next: "medical" }
+  },
+  medical: {
+    question: "Is it a syringe, medicine, bandage or used mask?",
+    hint: "Needles, expired tablets, dressings, gloves from home care",
+    yes: {
+      outcome: {
+        category: "biomedical",
+        title: "Biomedical Waste",
+        recommendations: getTaxonomyCategory("biomedical").recommendations
+      }
+    },
+    no: { next: "battery" }
+  },
+  battery: {
+    question: "Does it contain a battery or electronics?",
+    hint: "Anything with a plug, charging port, circuit board or cells",
+    yes: {
+      outcome: {
+        category: "hazardous",
+        subcategory: "e-waste",
+        title: "E-Waste",
+        recommendations: [
+          "Take to designated e-waste collection center",
+          "Tape over battery terminals before dropping them off",
+          "Do not dispose in regular waste bins"
+        ]
+      }
+    },
+    no: { next: "chemical" }
+  },
+  chemical: {
+    question: "Is it a chemical, paint or aerosol?",
+    hint: "Cleaning products, paint tins, insect sprays, spray cans",
+    yes: {
+      outcome: {
+        category: "hazardous",
+        subcategory: "household-chemicals",
+        title: "Hazardous Waste",
+        recommendations: [
+          "Keep it in its original container with the lid closed",
+          "Take it to a hazardous waste drop-off point",
+          "Never pour chemicals down the drain"
+        ]
+      }
+    },
+    no: { next: "debris" }
+  },
+  debris: {
+    question: "Is it rubble or leftovers from building work?",
+    hint: "Bricks, concrete, tiles, timber, pipes",
+    yes: {
+      outcome: {
+        category: "construction",
+        title: "Construction Debris",
+        recommendations: getTaxonomyCategory("construction").recommendations
+      }
+    },
+    no: { next: "recyclable" }
+  },
+  recyclable: {
+    question: "Is it clean paper, cardboard, plastic, metal, glass or fabric?",
+    hint: "Bottles, cans, jars, boxes, newspapers, old clothes",
+    yes: {
+      outcome: {
+        category: "dry",
+        subcategory: "recyclable",
+        title: "Dry Waste (Recyclable)",
+        recommendations: [
+          "These items can be recycled",
+          "Clean the containers before recycling",
+          "Keep paper and cardboard dry"
+        ]
+      }
+    },
+    no: {
+      outcome: {
+        category: "dry",
+        subcategory: "non-recyclable",
+        title: "Dry Waste (General)",
+        recommendations: [
+          "Place in general waste bin",
+          "Check if any components can be separated for recycling",
+          "Consider reducing waste by choosing reusable alternatives"
+        ]
+      }
+    }
+  }
+};
+
+// Materials from the taxonomy that end up in the same place
+const getExamples = ({ category, subcategory }: SortingOutcome) =>
+  getTaxonomyCategory(category).subcategories
+    .filter(entry => !subcategory || entry.id === subcategory)
+    .flatMap(entry => entry.materials);
+
+const FIRST_QUESTION = "food";
+
+interface ManualSortingFlowProps {
+  onComplete: (category: WasteCategory, recommendations: string[], subcategory?: string) => void;
+}
+
+// Short yes/no questionnaire shown when the detector cannot decide on a bin
+const ManualSortingFlow = ({ onComplete }: ManualSortingFlowProps) => {
+  const [history, setHistory] = useState<string[]>([FIRST_QUESTION]);
+  const [outcome, setOutcome] = useState<SortingOutcome | null>(null);
+  const [regionProfile] = useRegionProfile();
+
+  const currentId = history[history.length - 1];
+  const current = QUESTIONS[currentId];
+
+  const answer = (step: SortingStep) => {
+    if ("outcome" in step) {
+      setOutcome(step.outcome);
+    } else {
+      setHistory([...history, step.next]);
+    }
+  };
+
+  const goBack = () => {
+    setHistory(history.slice(0, -1));
+  };
+
+  const restart = () => {
+    setHistory([FIRST_QUESTION]);
+    setOutcome(null);
+  };
+
+  if (outcome) {
+    const examples = getExamples(outcome);
+    const bin = resolveBin(regionProfile, outcome);
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Based on your answers this belongs in:</p>
+          <h4 className="text-xl font-bold">{outcome.title}</h4>
+          {bin && (
+            <p className="text-sm text-muted-foreground">{bin.name} in {regionProfile.name}</p>
+          )}
+        </div>
+        {examples.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Similar items:</p>
+            <div className="flex flex-wrap gap-2">
+              {examples.map(material => (
+                <Badge key={material.id} className={getCategoryColor(outcome.category)}>
+                  {material.name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button onClick={() => onComplete(outcome.category, outcome.recommendations, outcome.subcategory)} className="flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            Use This Result
+          </Button>
+          <Button variant="outline" onClick={restart}>
+            Start Over
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-xs text-muted-foreground mb-1">Question {history.length}</p>
+        <h4 className="text-lg font-semibold">{current.question}</h4>
+        <p className="text-sm text-muted-foreground">{current.hint}</p>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={() => answer(current.yes)} className="flex items-center gap-2">
+          <Check className="w-4 h-4" />
+          Yes
+        </Button>
+        <Button variant="outline" onClick={() => answer(current.no)} className="flex items-center gap-2">
+          <X className="w-4 h-4" />
+          No
+        </Button>
+        {history.length > 1 && (
+          <Button variant="ghost" onClick={goBack} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManualSortingFlow;
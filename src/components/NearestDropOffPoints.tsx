@@ -0,0 +1,62 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { MapPin } from "lucide-react";
+import { getPointKindDisplay } from "@/lib/categoryDisplay";
+import type { WasteCategory } from "@/data/wasteTaxonomy";
+import { findCollectionPoints, getLastLocation } from "@/services/collectionPoints";
+import type { RegionProfile } from "@/services/regionProfiles";
+
+interface NearestDropOffPointsProps {
+  category: WasteCategory;
+  material?: string;
+  profile: RegionProfile;
+}
+
+const SHOWN_POINTS = 3;
+
+// Items of these categories must be handed in, so the section is shown even
+// when no point is known yet. For the others it only appears when one is.
+const DROP_OFF_CATEGORIES: WasteCategory[] = ["hazardous", "biomedical"];
+
+// The closest places that take an item, using the location last set in the
+// locator or the region chosen in Settings
+const NearestDropOffPoints = ({ category, material, profile }: NearestDropOffPointsProps) => {
+  const origin = getLastLocation();
+  const filter = material ? { material } : { category };
+  const points = findCollectionPoints(origin, origin ? filter : { ...filter, region: profile.id }).slice(0, SHOWN_POINTS);
+  if (points.length === 0 && !DROP_OFF_CATEGORIES.includes(category)) return null;
+
+  const locatorLink = `/locator?${new URLSearchParams(material ? { material } : { category })}`;
+
+  return (
+    <div className="p-4 rounded-lg border border-border space-y-3">
+      <h4 className="font-semibold flex items-center gap-2">
+        <MapPin className="w-4 h-4" />
+        {origin ? "Nearest Drop-off Points:" : `Drop-off Points in ${profile.name}:`}
+      </h4>
+      {points.length > 0 ? (
+        <ul className="space-y-2">
+          {points.map(({ point, distance }) => (
+            <li key={point.id} className="flex items-start gap-2 text-sm">
+              <span>{getPointKindDisplay(point.kind).icon}</span>
+              <div className="min-w-0">
+                <p className="font-medium">{point.name}</p>
+                <p className="text-xs text-muted-foreground">{point.address} · {point.hours}</p>
+              </div>
+              {distance !== null && (
+                <Badge variant="outline" className="ml-auto flex-shrink-0">{distance.toFixed(1)} km</Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No known drop-off points here yet.</p>
+      )}
+      <Link to={locatorLink} className="inline-block text-sm text-primary hover:underline">
+        {origin ? "See all on the map" : "Find points near you"}
+      </Link>
+    </div>
+  );
+};
+
+export default NearestDropOffPoints;
@@ -12,10 +12,16 @@ const Navigation = () => {
     { path: "/", label: "Home" },
     { path: "/guide", label: "Guide" },
     { path: "/upload", label: "Upload" },
+    { path: "/locator", label: "Locator" },
+    { path: "/schedule", label: "Schedule" },
+    { path: "/history", label: "History" },
+    { path: "/settings", label: "Settings" },
     { path: "/contact", label: "Contact" },
   ];
 
-  const isActive = (path: string) => location.pathname === path;
+  // Sub-pages such as /guide/pizza-box keep their section highlighted
+  const isActive = (path: string) =>
+    location.pathname === path || (path !== "/" && location.pathname.startsWith(`${path}/`));
 
   return (
     <nav className="bg-background border-b border-border sticky top-0 z-50 backdrop-blur-sm bg-background/95">
@@ -0,0 +1,10 @@
+import entries from './cocoWasteMap.json';
+import type { MappedWasteType } from './imagenetWasteMap';
+
+export interface CocoLabel {
+  label: string;
+  wasteType: MappedWasteType;
+}
+
+// COCO object classes keyed by their 1-based COCO id (the ids have gaps)
+export const COCO_WASTE_MAP = entries as Record<string, CocoLabel>;
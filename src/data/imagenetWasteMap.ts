@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import entries from './imagenetWasteMap.json';
+
+// Waste types the classifier can assign, keys of WASTE_CATEGORIES
+export type WasteType = 'organic' | 'recyclable' | 'electronic' | 'general';
+
+// Labels that say nothing about waste (animals, landscapes, vehicles) map to 'unknown'
+export type MappedWasteType = WasteType | 'unknown';
+
+export interface ImageNetLabel {
+  label: string;
+  wasteType: MappedWasteType;
+}
+
+const imageNetLabelSchema = z.object({
+  label: z.string(),
+  wasteType: z.enum(['organic', 'recyclable', 'electronic', 'general', 'unknown'])
+});
+
+// One entry for each of the 1000 ImageNet classes, in model output order
+export const IMAGENET_WASTE_MAP = z.array(imageNetLabelSchema).length(1000).parse(entries) as ImageNetLabel[];
+
+// ImageNet labels list synonyms ("pop bottle, soda bottle"), the first one reads best
+export const getDisplayLabel = (label: string): string => label.split(',')[0].trim();
@@ -0,0 +1,86 @@
+import entries from './itemCatalogue.json';
+import { findMaterial, getMaterialPath, type MaterialPath, type WasteCategory } from './wasteTaxonomy';
+import { getMaterialGuidance, type Compostability, type MaterialGuidance } from './materialGuidance';
+import { fuzzySearch } from '@/lib/fuzzySearch';
+
+interface CatalogueEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  material: string;
+  // Steps and pitfalls specific to this item, on top of its material's
+  preparation?: string[];
+  mistakes?: string[];
+  hazards?: string[];
+  // Overrides the material's compostability
+  compost?: Compostability;
+  note?: string;
+}
+
+export interface CatalogueItem extends CatalogueEntry {
+  path: MaterialPath;
+}
+
+// Everyday items people look up in the guide, each filed under a taxonomy
+// material. Entries with an unknown material are dropped rather than shown
+// without a bin.
+export const ITEM_CATALOGUE: CatalogueItem[] = (entries as CatalogueEntry[]).flatMap(entry => {
+  const path = getMaterialPath(entry.material);
+  if (!path) {
+    console.warn(`Catalogue item ${entry.id} has unknown material ${entry.material}`);
+    return [];
+  }
+  return [{ ...entry, path }];
+});
+
+export const getCatalogueItem = (id: string): CatalogueItem | null =>
+  ITEM_CATALOGUE.find(item => item.id === id) ?? null;
+
+// The item's own guidance first, then that of its material
+export const getItemGuidance = (item: CatalogueItem): MaterialGuidance => {
+  const guidance = getMaterialGuidance(item.material);
+  return {
+    preparation: [...(item.preparation ?? []), ...guidance.preparation],
+    mistakes: [...(item.mistakes ?? []), ...guidance.mistakes],
+    hazards: [...(item.hazards ?? []), ...guidance.hazards],
+    compost: item.compost ?? guidance.compost
+  };
+};
+
+// Items of the same material first, then others from the same subcategory
+export const getRelatedItems = (item: CatalogueItem, limit = 8): CatalogueItem[] => {
+  const others = ITEM_CATALOGUE.filter(other => other.id !== item.id);
+  return [
+    ...others.filter(other => other.material === item.material),
+    ...others.filter(other => other.material !== item.material && other.path.subcategory.id === item.path.subcategory.id)
+  ].slice(0, limit);
+};
+
+// Weaker matches are mostly typo-tolerance hits on unrelated words
+const LABEL_MATCH_MIN_SCORE = 50;
+
+// Where a classifier placed a label, as far as it is known
+export interface LabelPlacement {
+  category?: WasteCategory;
+  material?: string;
+}
+
+// The catalogue entry for a classifier label. Items of the label's material
+// are preferred, and an item is never returned from a different category
+// than the one the label was placed in.
+export const findCatalogueItem = (label: string, placement: LabelPlacement = {}): CatalogueItem | null => {
+  const material = placement.material ?? findMaterial(label)?.material.id;
+  const inCategory = placement.category
+    ? ITEM_CATALOGUE.filter(item => item.path.category.id === placement.category)
+    : ITEM_CATALOGUE;
+  const ofMaterial = material ? inCategory.filter(item => item.material === material) : [];
+  const candidates = ofMaterial.length > 0 ? ofMaterial : inCategory;
+  // ImageNet labels list synonyms separated by commas
+  const names = label.split(',').map(name => name.trim()).filter(Boolean);
+
+  for (const name of names) {
+    const [match] = fuzzySearch(candidates, name, item => [item.name, ...item.aliases], 1);
+    if (match && match.score >= LABEL_MATCH_MIN_SCORE) return match.item;
+  }
+  return ofMaterial[0] ?? null;
+};
@@ -0,0 +1,291 @@
+// How to prepare each taxonomy material for disposal, the mistakes people
+// commonly make with it, what makes it dangerous and whether it composts.
+// Catalogue items inherit this from their material and can add their own
+// steps on top.
+
+// "home" composts in a garden heap, "industrial" only in a municipal or
+// commercial composting facility
+export type Compostability = "home" | "industrial" | "no";
+
+export interface MaterialGuidance {
+  preparation: string[];
+  mistakes: string[];
+  hazards: string[];
+  compost: Compostability;
+}
+
+export const MATERIAL_GUIDANCE: Record<string, MaterialGuidance> = {
+  "fruit-vegetable-scraps": {
+    preparation: ["Remove stickers, rubber bands and twist ties", "Chop large pieces so they break down faster"],
+    mistakes: ["Throwing scraps out in a plastic bag", "Leaving fruit stickers on peels"],
+    hazards: [],
+    compost: "home"
+  },
+  "cooked-food": {
+    preparation: ["Scrape leftovers out of containers", "Drain soups and curries before binning"],
+    mistakes: ["Leaving food in packaging", "Pouring oil and gravy down the sink"],
+    hazards: [],
+    compost: "industrial"
+  },
+  eggshells: {
+    preparation: ["Crush the shells so they take up less space"],
+    mistakes: ["Putting egg cartons in with the shells, cartons are dry waste"],
+    hazards: [],
+    compost: "home"
+  },
+  "coffee-tea": {
+    preparation: ["Let grounds and leaves cool and drain", "Tear open tea bags with plastic mesh and empty them"],
+    mistakes: ["Composting plastic coffee pods", "Assuming every tea bag is plastic-free"],
+    hazards: [],
+    compost: "home"
+  },
+  "garden-waste": {
+    preparation: ["Cut branches into short lengths", "Shake off soil and stones"],
+    mistakes: ["Mixing in plant pots and plastic ties", "Burning garden waste"],
+    hazards: [],
+    compost: "home"
+  },
+  dairy: {
+    preparation: ["Empty the product out of its container", "Rinse the container and put it with dry waste"],
+    mistakes: ["Putting dairy in an open home compost heap, it attracts pests"],
+    hazards: [],
+    compost: "industrial"
+  },
+  "meat-bones": {
+    preparation: ["Wrap in newspaper to keep odours down", "Keep in a closed caddy until collection"],
+    mistakes: ["Putting bones in an open compost heap", "Leaving meat in its plastic tray"],
+    hazards: [],
+    compost: "industrial"
+  },
+  "pet-plastic": {
+    preparation: ["Empty and rinse the bottle", "Squash it flat and put the cap back on"],
+    mistakes: ["Leaving liquid inside", "Binning bottles with food or oil residue"],
+    hazards: [],
+    compost: "no"
+  },
+  "hdpe-plastic": {
+    preparation: ["Empty and rinse the container", "Leave the lid on"],
+    mistakes: ["Recycling containers that held motor oil or chemicals", "Leaving product inside"],
+    hazards: [],
+    compost: "no"
+  },
+  paper: {
+    preparation: ["Keep it clean and dry", "Remove plastic windows and binding where you can"],
+    mistakes: ["Recycling greasy or wet paper", "Shredding paper into tiny pieces that jam sorting machines"],
+    hazards: [],
+    compost: "no"
+  },
+  cardboard: {
+    preparation: ["Flatten boxes", "Remove plastic tape and packing foam"],
+    mistakes: ["Recycling cardboard soaked with grease or food", "Stuffing boxes inside each other"],
+    hazards: [],
+    compost: "no"
+  },
+  "aluminium-can": {
+    preparation: ["Empty and rinse the can", "Do not crush it if your recycler sorts by shape"],
+    mistakes: ["Leaving drinks inside", "Putting cans in a plastic bag"],
+    hazards: [],
+    compost: "no"
+  },
+  "steel-tin": {
+    preparation: ["Rinse out food residue", "Push sharp lids inside the can"],
+    mistakes: ["Leaving food inside tins", "Recycling aerosol cans that are not empty"],
+    hazards: ["Opened lids have sharp edges"],
+    compost: "no"
+  },
+  glass: {
+    preparation: ["Empty and rinse", "Remove metal or plastic lids and recycle them separately"],
+    mistakes: ["Recycling window glass, mirrors or drinking glasses with bottles", "Breaking bottles before binning"],
+    hazards: ["Broken glass cuts collectors, wrap shards in newspaper"],
+    compost: "no"
+  },
+  textiles: {
+    preparation: ["Wash and dry wearable items", "Donate what can still be worn"],
+    mistakes: ["Throwing wearable clothes away", "Putting wet or mouldy textiles in collection bags"],
+    hazards: [],
+    compost: "no"
+  },
+  "multilayer-packaging": {
+    preparation: ["Empty crumbs and residue out"],
+    mistakes: ["Putting chip packets and foil pouches in the recycling"],
+    hazards: [],
+    compost: "no"
+  },
+  polystyrene: {
+    preparation: ["Break large pieces down so they fit the bin", "Remove food residue"],
+    mistakes: ["Putting polystyrene in the recycling", "Burning it"],
+    hazards: ["Breaks into small pieces that end up in waterways"],
+    compost: "no"
+  },
+  "plastic-bag": {
+    preparation: ["Collect bags and film in one bag", "Use supermarket film drop-off points where available"],
+    mistakes: ["Putting loose bags in the recycling, they tangle sorting machines"],
+    hazards: [],
+    compost: "no"
+  },
+  ceramics: {
+    preparation: ["Wrap broken pieces in newspaper so collectors are not cut"],
+    mistakes: ["Recycling ceramics with glass, they melt at a different temperature"],
+    hazards: ["Sharp edges when broken"],
+    compost: "no"
+  },
+  rubber: {
+    preparation: ["Keep large items like tyres for a dedicated collection"],
+    mistakes: ["Burning rubber", "Putting tyres out with household waste"],
+    hazards: ["Releases toxic smoke when burned"],
+    compost: "no"
+  },
+  footwear: {
+    preparation: ["Tie pairs of shoes together", "Donate what can still be worn"],
+    mistakes: ["Putting shoes in the textile recycling loose"],
+    hazards: [],
+    compost: "no"
+  },
+  "lithium-battery": {
+    preparation: ["Tape over the terminals", "Keep damaged or swollen batteries in a metal container"],
+    mistakes: ["Throwing lithium batteries in any bin, they cause fires in collection trucks", "Leaving batteries inside devices for recycling"],
+    hazards: ["Can catch fire or explode when crushed, punctured or short-circuited"],
+    compost: "no"
+  },
+  "household-battery": {
+    preparation: ["Tape over the terminals of 9V and button cells", "Store in a cool dry jar until drop-off"],
+    mistakes: ["Putting batteries in general waste"],
+    hazards: ["Leaks corrosive chemicals", "Button cells cause severe internal burns if swallowed"],
+    compost: "no"
+  },
+  "phones-computers": {
+    preparation: ["Back up and wipe your data", "Remove SIM and memory cards", "Take out removable batteries"],
+    mistakes: ["Storing old devices in a drawer for years", "Throwing devices in household waste"],
+    hazards: ["Contains lead, mercury and a lithium battery", "Stores personal data"],
+    compost: "no"
+  },
+  "small-appliances": {
+    preparation: ["Take out batteries", "Check whether a repair café or shop can fix it"],
+    mistakes: ["Putting appliances in household bins"],
+    hazards: ["May contain batteries and heavy metals"],
+    compost: "no"
+  },
+  "cables-chargers": {
+    preparation: ["Bundle cables with a tie"],
+    mistakes: ["Putting cables in the recycling, they wrap around machinery"],
+    hazards: ["Copper and PVC release toxic fumes when burned"],
+    compost: "no"
+  },
+  paint: {
+    preparation: ["Keep the lid tightly closed", "Let small amounts of water-based paint dry out completely"],
+    mistakes: ["Pouring paint or thinner down drains", "Binning liquid paint"],
+    hazards: ["Flammable", "Toxic to aquatic life", "Fumes irritate eyes and lungs"],
+    compost: "no"
+  },
+  pesticides: {
+    preparation: ["Keep in the original labelled container", "Store away from children until drop-off"],
+    mistakes: ["Pouring leftovers into drains or soil", "Reusing pesticide containers"],
+    hazards: ["Poisonous to people, pets and wildlife", "Contaminates soil and groundwater"],
+    compost: "no"
+  },
+  aerosols: {
+    preparation: ["Use it until completely empty", "Do not pierce or crush it"],
+    mistakes: ["Binning cans that still hiss when pressed"],
+    hazards: ["Pressurised, can explode when heated or crushed", "Often contains flammable propellant"],
+    compost: "no"
+  },
+  "fluorescent-lamp": {
+    preparation: ["Keep the lamp intact and wrap it", "Ventilate the room if one breaks"],
+    mistakes: ["Breaking tubes into a bin, they release mercury"],
+    hazards: ["Contains mercury vapour"],
+    compost: "no"
+  },
+  "light-bulb": {
+    preparation: ["Wrap bulbs so they do not shatter"],
+    mistakes: ["Recycling bulbs with glass bottles"],
+    hazards: ["Thin glass shatters easily"],
+    compost: "no"
+  },
+  diapers: {
+    preparation: ["Tip solid waste into the toilet", "Roll up and wrap in newspaper or a disposal bag"],
+    mistakes: ["Flushing diapers", "Putting them in the wet or dry waste loose"],
+    hazards: ["Carries human waste and pathogens"],
+    compost: "no"
+  },
+  "sanitary-pads": {
+    preparation: ["Wrap in the wrapper of a new pad or in newspaper", "Mark the package with a red cross"],
+    mistakes: ["Flushing pads and tampons"],
+    hazards: ["Carries blood and pathogens"],
+    compost: "no"
+  },
+  tissues: {
+    preparation: ["Collect in a small bag"],
+    mistakes: ["Recycling tissues and paper towels, their fibres are too short"],
+    hazards: ["Used tissues can carry germs"],
+    compost: "industrial"
+  },
+  razors: {
+    preparation: ["Put the cap on the blade", "Wrap blades in paper before binning"],
+    mistakes: ["Binning loose blades that can cut collectors"],
+    hazards: ["Sharp blades cut waste collectors"],
+    compost: "no"
+  },
+  toothbrushes: {
+    preparation: ["Check for brand take-back schemes"],
+    mistakes: ["Putting toothbrushes in the plastic recycling"],
+    hazards: [],
+    compost: "no"
+  },
+  syringes: {
+    preparation: ["Put used needles straight into a sharps container", "Seal the container when it is three quarters full"],
+    mistakes: ["Recapping needles by hand", "Putting sharps in plastic bottles or household bins"],
+    hazards: ["Needle-stick injuries spread infections"],
+    compost: "no"
+  },
+  tablets: {
+    preparation: ["Keep them in the original pack", "Remove personal details from the label"],
+    mistakes: ["Flushing medicines", "Throwing them in household waste"],
+    hazards: ["Poisonous to children and pets", "Pollutes water when flushed"],
+    compost: "no"
+  },
+  "liquid-medicine": {
+    preparation: ["Keep the cap tightly closed"],
+    mistakes: ["Pouring medicines down the sink"],
+    hazards: ["Poisonous to children and pets", "Pollutes water when poured away"],
+    compost: "no"
+  },
+  bandages: {
+    preparation: ["Seal soiled dressings in a bag"],
+    mistakes: ["Mixing blood-soiled items with wet waste"],
+    hazards: ["Blood-soiled dressings can spread infection"],
+    compost: "no"
+  },
+  "masks-gloves": {
+    preparation: ["Cut the ear loops of masks", "Seal in a bag before binning"],
+    mistakes: ["Recycling masks and gloves", "Leaving them loose where wildlife can get tangled"],
+    hazards: ["Used masks and gloves can carry germs"],
+    compost: "no"
+  },
+  "concrete-bricks": {
+    preparation: ["Keep separate from soil and wood", "Store on your own premises until pickup"],
+    mistakes: ["Dumping debris on roadsides or in empty plots"],
+    hazards: ["Heavy and dusty, wear gloves and a mask when moving it"],
+    compost: "no"
+  },
+  tiles: {
+    preparation: ["Stack whole tiles for reuse"],
+    mistakes: ["Putting broken tiles in household bins"],
+    hazards: ["Sharp edges when broken"],
+    compost: "no"
+  },
+  wood: {
+    preparation: ["Remove nails and screws", "Keep painted or treated wood separate"],
+    mistakes: ["Burning treated or painted wood"],
+    hazards: ["Treated wood releases toxic smoke when burned", "Protruding nails"],
+    compost: "no"
+  },
+  "metal-scrap": {
+    preparation: ["Sell larger pieces to a scrap dealer"],
+    mistakes: ["Putting heavy scrap in household bins"],
+    hazards: ["Sharp edges"],
+    compost: "no"
+  }
+};
+
+export const getMaterialGuidance = (materialId: string): MaterialGuidance =>
+  MATERIAL_GUIDANCE[materialId] ?? { preparation: [], mistakes: [], hazards: [], compost: "no" };
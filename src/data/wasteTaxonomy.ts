@@ -0,0 +1,376 @@
+// Waste taxonomy: category → subcategory → material. Drives the detection
+// result, the colors and icons it is shown with, and the segregation guide.
+
+// The waste streams a household separates
+export type WasteCategory = "wet" | "dry" | "hazardous" | "sanitary" | "biomedical" | "construction";
+
+// The streams the classifiers score. The other categories cannot be told
+// apart from a photo's overall look and are recognised from the item itself.
+export type WasteBin = "wet" | "dry" | "hazardous";
+
+export type TaxonomyColor = "green" | "blue" | "red" | "pink" | "purple" | "amber";
+
+export interface WasteMaterial {
+  // Unique across the whole taxonomy
+  id: string;
+  name: string;
+  // Lowercase words matched against classifier labels and item names
+  keywords: string[];
+}
+
+export interface WasteSubcategory {
+  id: string;
+  name: string;
+  description: string;
+  materials: WasteMaterial[];
+}
+
+export interface TaxonomyCategory {
+  id: WasteCategory;
+  name: string;
+  description: string;
+  icon: string;
+  color: TaxonomyColor;
+  // Bin whose classifier score covers this category
+  bin: WasteBin;
+  recommendations: string[];
+  subcategories: WasteSubcategory[];
+}
+
+export const WASTE_TAXONOMY: TaxonomyCategory[] = [
+  {
+    id: "wet",
+    name: "Wet Waste",
+    description: "Biodegradable organic waste that can be composted",
+    icon: "💧",
+    color: "green",
+    bin: "wet",
+    recommendations: [
+      "Drain any liquid first",
+      "Remove any packaging, stickers or rubber bands first",
+      "Consider composting it at home"
+    ],
+    subcategories: [
+      {
+        id: "compostable",
+        name: "Compostable",
+        description: "Breaks down quickly in a home compost bin",
+        materials: [
+          { id: "fruit-vegetable-scraps", name: "Fruit and vegetable scraps", keywords: ["fruit", "vegetable", "peel", "banana", "orange", "lemon", "apple", "pineapple", "broccoli", "cabbage", "cauliflower", "cucumber", "zucchini", "squash", "corn", "mushroom", "pomegranate", "strawberry", "fig"] },
+          { id: "cooked-food", name: "Cooked food and leftovers", keywords: ["food", "leftover", "rice", "bread", "pizza", "burrito", "potpie", "bagel", "pretzel", "dough", "meat loaf", "trifle", "carbonara"] },
+          { id: "eggshells", name: "Eggshells", keywords: ["eggshell", "egg"] },
+          { id: "coffee-tea", name: "Coffee grounds and tea leaves", keywords: ["coffee", "tea", "espresso"] },
+          { id: "garden-waste", name: "Leaves, flowers and garden waste", keywords: ["leaf", "leaves", "flower", "garden", "grass", "daisy", "acorn", "hay"] }
+        ]
+      },
+      {
+        id: "animal-products",
+        name: "Animal Products",
+        description: "Compost in a closed system or give to the municipal wet waste collection",
+        materials: [
+          { id: "dairy", name: "Dairy products", keywords: ["dairy", "cheese", "milk", "yogurt", "ice cream"] },
+          { id: "meat-bones", name: "Meat, fish and bones", keywords: ["meat", "bone", "fish", "chicken", "hotdog", "cheeseburger"] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "dry",
+    name: "Dry Waste",
+    description: "Non-biodegradable waste that can be recycled or needs special handling",
+    icon: "🗑️",
+    color: "blue",
+    bin: "dry",
+    recommendations: [
+      "Keep paper and cardboard dry",
+      "Clean the containers before recycling",
+      "Separate different materials where you can"
+    ],
+    subcategories: [
+      {
+        id: "recyclable",
+        name: "Recyclable",
+        description: "Accepted by most recycling collections when clean and dry",
+        materials: [
+          { id: "pet-plastic", name: "PET plastic", keywords: ["pet", "water bottle", "pop bottle", "soda bottle", "plastic bottle", "bottle"] },
+          { id: "hdpe-plastic", name: "HDPE plastic", keywords: ["hdpe", "jug", "shampoo", "detergent bottle", "lotion", "pill bottle"] },
+          { id: "paper", name: "Paper", keywords: ["paper", "newspaper", "envelope", "notebook", "book", "magazine", "menu", "comic"] },
+          { id: "cardboard", name: "Cardboard", keywords: ["cardboard", "carton", "box", "packet"] },
+          { id: "aluminium-can", name: "Aluminium cans", keywords: ["aluminium", "aluminum", "beer can", "soda can", "drink can", "tin can"] },
+          { id: "steel-tin", name: "Steel and tin", keywords: ["steel", "tin", "milk can", "bottlecap", "metal"] },
+          { id: "glass", name: "Glass bottles and jars", keywords: ["glass", "jar", "beer bottle", "wine bottle", "beer glass", "goblet"] },
+          { id: "textiles", name: "Clothes and textiles", keywords: ["fabric", "textile", "cloth", "shirt", "jersey", "sweatshirt", "jean", "sock", "towel"] }
+        ]
+      },
+      {
+        id: "non-recyclable",
+        name: "Non-Recyclable",
+        description: "Goes to landfill or waste-to-energy, keep it out of the recycling",
+        materials: [
+          { id: "multilayer-packaging", name: "Multi-layer packaging", keywords: ["multilayer", "chip packet", "wrapper", "tetra"] },
+          { id: "polystyrene", name: "Polystyrene foam", keywords: ["polystyrene", "styrofoam", "thermocol", "foam"] },
+          { id: "plastic-bag", name: "Thin plastic bags and film", keywords: ["plastic bag", "cling film", "film"] },
+          { id: "ceramics", name: "Ceramics and crockery", keywords: ["ceramic", "crockery", "cup", "plate", "mug", "coffee mug", "teapot", "vase"] }
+        ]
+      },
+      {
+        id: "special",
+        name: "Special",
+        description: "Recyclable through dedicated collection points only",
+        materials: [
+          { id: "rubber", name: "Rubber", keywords: ["rubber", "tyre", "tire", "eraser"] },
+          { id: "footwear", name: "Shoes and bags", keywords: ["shoe", "sandal", "boot", "sneaker", "handbag", "backpack", "purse"] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "hazardous",
+    name: "Hazardous Waste",
+    description: "Household waste that harms people or the environment if mishandled",
+    icon: "⚠️",
+    color: "red",
+    bin: "hazardous",
+    recommendations: [
+      "Keep it separate from all other waste",
+      "Take it to a designated hazardous or e-waste collection point",
+      "Do not dispose in regular waste bins"
+    ],
+    subcategories: [
+      {
+        id: "e-waste",
+        name: "E-Waste",
+        description: "Anything with a plug, battery or circuit board",
+        materials: [
+          { id: "lithium-battery", name: "Lithium batteries", keywords: ["lithium", "power bank", "li-ion"] },
+          { id: "household-battery", name: "Household batteries", keywords: ["battery", "batteries", "cell"] },
+          { id: "phones-computers", name: "Phones and computers", keywords: ["phone", "cellular", "laptop", "notebook computer", "computer", "ipod", "keyboard", "mouse", "monitor", "tablet computer"] },
+          { id: "small-appliances", name: "Small appliances", keywords: ["appliance", "hair dryer", "blow dryer", "toaster", "iron", "remote control", "radio", "speaker", "lighter"] },
+          { id: "cables-chargers", name: "Cables and chargers", keywords: ["cable", "charger", "wire", "plug", "adapter"] }
+        ]
+      },
+      {
+        id: "household-chemicals",
+        name: "Household Chemicals",
+        description: "Keep in the original container with the lid closed",
+        materials: [
+          { id: "paint", name: "Paint and solvents", keywords: ["paint", "solvent", "thinner", "varnish"] },
+          { id: "pesticides", name: "Pesticides and insect sprays", keywords: ["pesticide", "insecticide", "insect spray", "mosquito"] },
+          { id: "aerosols", name: "Aerosol cans", keywords: ["aerosol", "spray can", "deodorant"] }
+        ]
+      },
+      {
+        id: "lighting",
+        name: "Lighting",
+        description: "Contains mercury or electronics",
+        materials: [
+          { id: "fluorescent-lamp", name: "CFLs and tube lights", keywords: ["cfl", "fluorescent", "tube light"] },
+          { id: "light-bulb", name: "LED and incandescent bulbs", keywords: ["bulb", "lamp", "led"] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "sanitary",
+    name: "Sanitary Waste",
+    description: "Used hygiene products that must be wrapped and kept apart",
+    icon: "🧻",
+    color: "pink",
+    bin: "dry",
+    recommendations: [
+      "Wrap it securely in newspaper or a disposal bag",
+      "Mark the package with a red cross before handing it over",
+      "Never flush it down the toilet"
+    ],
+    subcategories: [
+      {
+        id: "personal-hygiene",
+        name: "Personal Hygiene",
+        description: "Single-use products that have touched the body",
+        materials: [
+          { id: "diapers", name: "Diapers", keywords: ["diaper", "nappy"] },
+          { id: "sanitary-pads", name: "Sanitary pads and tampons", keywords: ["sanitary pad", "sanitary napkin", "tampon", "panty liner"] },
+          { id: "tissues", name: "Used tissues and wipes", keywords: ["tissue", "toilet tissue", "wet wipe", "wipe", "paper towel"] }
+        ]
+      },
+      {
+        id: "grooming",
+        name: "Grooming",
+        description: "Personal care items that cannot be recycled",
+        materials: [
+          { id: "razors", name: "Disposable razors", keywords: ["razor", "blade"] },
+          { id: "toothbrushes", name: "Toothbrushes", keywords: ["toothbrush"] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "biomedical",
+    name: "Biomedical Waste",
+    description: "Medical waste from home care that can spread infection",
+    icon: "💉",
+    color: "purple",
+    bin: "hazardous",
+    recommendations: [
+      "Seal it in a puncture-proof container",
+      "Hand it to a pharmacy or clinic take-back programme",
+      "Never put sharps in a plastic bag"
+    ],
+    subcategories: [
+      {
+        id: "sharps",
+        name: "Sharps",
+        description: "Anything that can pierce skin",
+        materials: [
+          { id: "syringes", name: "Syringes and needles", keywords: ["syringe", "needle", "lancet", "injection"] }
+        ]
+      },
+      {
+        id: "medicines",
+        name: "Medicines",
+        description: "Expired or unused medicines",
+        materials: [
+          { id: "tablets", name: "Tablets and capsules", keywords: ["medicine", "tablet", "capsule", "pill"] },
+          { id: "liquid-medicine", name: "Liquid medicines", keywords: ["syrup", "ointment", "cream tube"] }
+        ]
+      },
+      {
+        id: "contaminated",
+        name: "Contaminated Items",
+        description: "Items soiled with blood or body fluids",
+        materials: [
+          { id: "bandages", name: "Bandages and dressings", keywords: ["band aid", "bandage", "dressing", "gauze", "cotton swab"] },
+          { id: "masks-gloves", name: "Masks and gloves", keywords: ["face mask", "surgical mask", "oxygen mask", "respirator", "glove"] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "construction",
+    name: "Construction Debris",
+    description: "Rubble and leftovers from building and renovation work",
+    icon: "🧱",
+    color: "amber",
+    bin: "dry",
+    recommendations: [
+      "Keep it out of household bins",
+      "Book a debris pickup with your municipality",
+      "Clean bricks, tiles and wood can often be reused"
+    ],
+    subcategories: [
+      {
+        id: "inert-debris",
+        name: "Inert Debris",
+        description: "Heavy mineral waste",
+        materials: [
+          { id: "concrete-bricks", name: "Concrete and bricks", keywords: ["concrete", "brick", "rubble", "cement", "stone"] },
+          { id: "tiles", name: "Tiles and sanitaryware", keywords: ["tile", "sanitaryware", "sink"] }
+        ]
+      },
+      {
+        id: "building-materials",
+        name: "Building Materials",
+        description: "Leftovers that can often be reused",
+        materials: [
+          { id: "wood", name: "Wood and timber", keywords: ["plywood", "plank", "lumber", "wood offcut"] },
+          { id: "metal-scrap", name: "Pipes and metal scrap", keywords: ["pipe", "rebar", "scrap"] }
+        ]
+      }
+    ]
+  }
+];
+
+export const WASTE_CATEGORY_IDS: WasteCategory[] = WASTE_TAXONOMY.map(category => category.id);
+
+export const WASTE_BINS: WasteBin[] = ["wet", "dry", "hazardous"];
+
+export const isWasteBin = (category: string): category is WasteBin =>
+  (WASTE_BINS as string[]).includes(category);
+
+export const getTaxonomyCategory = (category: WasteCategory): TaxonomyCategory =>
+  WASTE_TAXONOMY.find(entry => entry.id === category) ?? WASTE_TAXONOMY[0];
+
+// The bin whose classifier score covers a category, e.g. sanitary → dry
+export const getCategoryBin = (category: WasteCategory): WasteBin => getTaxonomyCategory(category).bin;
+
+// A material together with where it sits in the taxonomy
+export interface MaterialPath {
+  category: TaxonomyCategory;
+  subcategory: WasteSubcategory;
+  material: WasteMaterial;
+}
+
+export const MATERIAL_PATHS: MaterialPath[] = WASTE_TAXONOMY.flatMap(category =>
+  category.subcategories.flatMap(subcategory =>
+    subcategory.materials.map(material => ({ category, subcategory, material }))
+  )
+);
+
+export const getMaterialPath = (materialId: string): MaterialPath | null =>
+  MATERIAL_PATHS.find(path => path.material.id === materialId) ?? null;
+
+const matchesKeyword = (text: string, keyword: string): boolean =>
+  new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}s?\\b`).test(text);
+
+// Classifier labels the keywords would misread, such as animals named after
+// materials. null means the label names no material at all.
+const LABEL_MATERIALS: Record<string, string | null> = {
+  "hen-of-the-woods": "fruit-vegetable-scraps",
+  "ski mask": "textiles",
+  "knee pad": null,
+  "toilet seat": null,
+  "washbasin": null,
+  "whiskey jug": "ceramics",
+  "measuring cup": null,
+  "espresso maker": "small-appliances",
+  // ImageNet's notebook is the computer, not the paper one
+  "notebook": "phones-computers",
+  // A roll of unused towels, it is only sanitary waste once used
+  "paper towel": null,
+  "table lamp": "small-appliances",
+  "box turtle": null,
+  "garden spider": null,
+  "black and gold garden spider": null,
+  "prairie chicken": null,
+  "jelly fish": null,
+  "anemone fish": null,
+  "wire-haired fox terrier": null,
+  "timber wolf": null,
+  "wood rabbit": null,
+  "leaf beetle": null,
+  "cabbage butterfly": null,
+  "sea cucumber": null,
+  "radio telescope": null,
+  "steel arch bridge": null,
+  "steel drum": null,
+  "stone wall": null,
+  "shoe shop": null,
+  "mosquito net": null,
+  "medicine chest": null,
+  "plate rack": null,
+  "pencil box": null
+};
+
+// The material best described by a label, preferring the longest keyword
+// match so "beer bottle" wins over "bottle"
+export const findMaterial = (label: string): MaterialPath | null => {
+  const text = label.toLowerCase();
+  if (text in LABEL_MATERIALS) {
+    const materialId = LABEL_MATERIALS[text];
+    return materialId ? getMaterialPath(materialId) : null;
+  }
+
+  let best: MaterialPath | null = null;
+  let bestLength = 0;
+
+  for (const path of MATERIAL_PATHS) {
+    for (const keyword of path.material.keywords) {
+      if (keyword.length > bestLength && matchesKeyword(text, keyword)) {
+        best = path;
+        bestLength = keyword.length;
+      }
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,129 @@
+import * as React from "react"
+
+export type FacingMode = "user" | "environment"
+
+// Quality used when encoding captured frames
+const CAPTURE_QUALITY = 0.92
+
+const describeCameraError = (error: unknown) => {
+  if (error instanceof DOMException) {
+    switch (error.name) {
+      case "NotAllowedError":
+        return "Camera access was denied. Allow it in your browser settings to take photos."
+      case "NotFoundError":
+      case "OverconstrainedError":
+        return "No camera was found on this device."
+      case "NotReadableError":
+        return "The camera is already in use by another application."
+    }
+  }
+  return "Unable to start the camera."
+}
+
+export function useCamera() {
+  const videoRef = React.useRef<HTMLVideoElement>(null)
+  const streamRef = React.useRef<MediaStream | null>(null)
+  // Bumped by every start and stop, so a stream that arrives after the
+  // camera was stopped or restarted can be told apart and released
+  const requestRef = React.useRef(0)
+  const facingModeRef = React.useRef<FacingMode>("environment")
+  const [facingMode, setFacingMode] = React.useState<FacingMode>("environment")
+  const [isActive, setIsActive] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [hasMultipleCameras, setHasMultipleCameras] = React.useState(false)
+
+  const isSupported = typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia
+
+  const stop = React.useCallback(() => {
+    requestRef.current++
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    if (videoRef.current) {
+      videoRef.current.srcObject = null
+    }
+    setIsActive(false)
+  }, [])
+
+  const start = React.useCallback(async (mode: FacingMode = facingModeRef.current) => {
+    if (!isSupported) {
+      setError("This browser does not support camera access.")
+      return
+    }
+
+    stop()
+    setError(null)
+    const request = requestRef.current
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: { ideal: mode }, width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false,
+      })
+
+      // Stopped or restarted while waiting for permission
+      if (request !== requestRef.current) {
+        stream.getTracks().forEach((track) => track.stop())
+        return
+      }
+      streamRef.current = stream
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+      }
+
+      // Device labels and counts are only reliable once permission is granted
+      const devices = await navigator.mediaDevices.enumerateDevices()
+      if (request !== requestRef.current) return
+
+      setHasMultipleCameras(devices.filter((device) => device.kind === "videoinput").length > 1)
+      facingModeRef.current = mode
+      setFacingMode(mode)
+      setIsActive(true)
+    } catch (err) {
+      if (request !== requestRef.current) return
+
+      console.error("Camera error:", err)
+      setError(describeCameraError(err))
+      setIsActive(false)
+    }
+  }, [isSupported, stop])
+
+  const switchCamera = React.useCallback(() => {
+    return start(facingModeRef.current === "environment" ? "user" : "environment")
+  }, [start])
+
+  // Grab the current frame as a JPEG file
+  const capture = React.useCallback(async (): Promise<File | null> => {
+    const video = videoRef.current
+    if (!video || !isActive || video.videoWidth === 0) return null
+
+    const canvas = document.createElement("canvas")
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    canvas.getContext("2d")?.drawImage(video, 0, 0)
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", CAPTURE_QUALITY)
+    )
+    if (!blob) return null
+
+    return new File([blob], `camera-${Date.now()}.jpg`, { type: "image/jpeg" })
+  }, [isActive])
+
+  // Release the camera when the component using it unmounts
+  React.useEffect(() => stop, [stop])
+
+  return {
+    videoRef,
+    facingMode,
+    isActive,
+    isSupported,
+    error,
+    hasMultipleCameras,
+    start,
+    stop,
+    switchCamera,
+    capture,
+  }
+}
@@ -0,0 +1,112 @@
+import * as React from "react"
+import { wasteDetectionService, type WasteDetectionResult } from "@/services/wasteDetection"
+
+export type QueueItemStatus = "pending" | "processing" | "done" | "error" | "cancelled"
+
+export interface QueueItem {
+  id: string
+  file: File
+  status: QueueItemStatus
+  result?: WasteDetectionResult
+  error?: string
+}
+
+let nextItemId = 0
+
+interface ClassificationQueueOptions {
+  // Called for every image classified successfully
+  onResult?: (file: File, result: WasteDetectionResult) => void
+}
+
+// Classifies images one after another through the detection service, so a
+// large batch never floods the worker
+export function useClassificationQueue({ onResult }: ClassificationQueueOptions = {}) {
+  const [items, setItems] = React.useState<QueueItem[]>([])
+  const itemsRef = React.useRef<QueueItem[]>([])
+  const controllerRef = React.useRef<AbortController | null>(null)
+  const isRunningRef = React.useRef(false)
+  const onResultRef = React.useRef(onResult)
+  onResultRef.current = onResult
+
+  const commit = React.useCallback((next: QueueItem[]) => {
+    itemsRef.current = next
+    setItems(next)
+  }, [])
+
+  const updateItem = React.useCallback((id: string, changes: Partial<QueueItem>) => {
+    commit(itemsRef.current.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+  }, [commit])
+
+  const run = React.useCallback(async () => {
+    if (isRunningRef.current) return
+    isRunningRef.current = true
+
+    let next = itemsRef.current.find((item) => item.status === "pending")
+    while (next) {
+      const controller = new AbortController()
+      controllerRef.current = controller
+      updateItem(next.id, { status: "processing" })
+
+      try {
+        const result = await wasteDetectionService.detectWaste(next.file, { signal: controller.signal })
+        updateItem(next.id, { status: "done", result })
+        onResultRef.current?.(next.file, result)
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          updateItem(next.id, {
+            status: "error",
+            error: error instanceof Error ? error.message : "Unable to analyze this image",
+          })
+        }
+      }
+
+      controllerRef.current = null
+      next = itemsRef.current.find((item) => item.status === "pending")
+    }
+
+    isRunningRef.current = false
+  }, [updateItem])
+
+  const enqueue = React.useCallback((files: File[]) => {
+    const added = files.map((file): QueueItem => ({
+      id: `queue-${nextItemId++}`,
+      file,
+      status: "pending",
+    }))
+    commit([...itemsRef.current, ...added])
+    run()
+  }, [commit, run])
+
+  // Stop processing, keeping the results gathered so far
+  const cancel = React.useCallback(() => {
+    controllerRef.current?.abort()
+    commit(itemsRef.current.map((item) =>
+      item.status === "pending" || item.status === "processing"
+        ? { ...item, status: "cancelled" }
+        : item
+    ))
+  }, [commit])
+
+  const clear = React.useCallback(() => {
+    controllerRef.current?.abort()
+    commit([])
+  }, [commit])
+
+  // Abort the running job when the page unmounts
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const completed = items.filter((item) => item.status !== "pending" && item.status !== "processing").length
+  const isProcessing = items.some((item) => item.status === "pending" || item.status === "processing")
+
+  return {
+    items,
+    completed,
+    total: items.length,
+    isProcessing,
+    enqueue,
+    cancel,
+    clear,
+  }
+}
+
+export type ClassificationQueue = ReturnType<typeof useClassificationQueue>
@@ -0,0 +1,74 @@
+import * as React from "react"
+import {
+  getNextReminder,
+  getScheduleSettings,
+  getSelectedArea,
+  markReminderSent,
+  SCHEDULE_CHANGE_EVENT,
+} from "@/services/collectionSchedule"
+import { getSelectedRegionProfile, REGION_CHANGE_EVENT } from "@/services/regionProfiles"
+
+// Timers this long get throttled or dropped by browsers, so check again
+// at least every few hours
+const MAX_TIMER_MS = 4 * 60 * 60 * 1000
+
+// Android Chrome only allows notifications through the service worker, the
+// constructor throws there. Without a controlling worker (development, first
+// visit) serviceWorker.ready would never resolve, so it is not waited for.
+async function showNotification(title: string, options: NotificationOptions) {
+  try {
+    if ("serviceWorker" in navigator && navigator.serviceWorker.controller) {
+      const registration = await navigator.serviceWorker.ready
+      await registration.showNotification(title, options)
+      return
+    }
+    new Notification(title, options)
+  } catch (error) {
+    console.warn("Unable to show collection reminder:", error)
+  }
+}
+
+// Shows a browser notification the evening before each collection in the
+// chosen area while the app is open
+export function useCollectionReminders() {
+  React.useEffect(() => {
+    let timer: number | undefined
+
+    const schedule = () => {
+      window.clearTimeout(timer)
+      if (!getScheduleSettings().reminders) return
+      if (!("Notification" in window) || Notification.permission !== "granted") return
+
+      const profile = getSelectedRegionProfile()
+      const area = getSelectedArea(profile)
+      const reminder = area && getNextReminder(profile, area)
+      if (!area || !reminder) return
+
+      const delay = reminder.at.getTime() - Date.now()
+      if (delay > 0) {
+        timer = window.setTimeout(schedule, Math.min(delay, MAX_TIMER_MS))
+        return
+      }
+
+      // Marked first so a failing notification is not retried in a loop
+      markReminderSent(reminder.day)
+      const bins = reminder.day.bins.map(bin => bin.name).join(", ")
+      void showNotification("Bin collection tomorrow", {
+        body: `${area.name}: ${bins}`,
+        tag: "collection-reminder",
+      })
+      schedule()
+    }
+
+    schedule()
+    window.addEventListener(SCHEDULE_CHANGE_EVENT, schedule)
+    window.addEventListener(REGION_CHANGE_EVENT, schedule)
+    window.addEventListener("storage", schedule)
+    return () => {
+      window.clearTimeout(timer)
+      window.removeEventListener(SCHEDULE_CHANGE_EVENT, schedule)
+      window.removeEventListener(REGION_CHANGE_EVENT, schedule)
+      window.removeEventListener("storage", schedule)
+    }
+  }, [])
+}
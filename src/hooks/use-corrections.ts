@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { addCorrection, clearCorrections, listCorrections, type NewCorrection } from "@/services/correctionStore"
+import { setHistoryCorrection } from "@/services/historyStore"
+import { HISTORY_QUERY_KEY } from "@/hooks/use-history"
+
+export const CORRECTIONS_QUERY_KEY = ["corrections"]
+
+export function useCorrections() {
+  return useQuery({
+    queryKey: CORRECTIONS_QUERY_KEY,
+    queryFn: listCorrections,
+  })
+}
+
+// Records the correction and updates the matching history entry
+export function useAddCorrection() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (correction: NewCorrection) => {
+      const saved = await addCorrection(correction)
+      if (correction.historyEntryId) {
+        await setHistoryCorrection(correction.historyEntryId, correction.category, correction.itemName)
+      }
+      return saved
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: CORRECTIONS_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY })
+    },
+  })
+}
+
+export function useClearCorrections() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: clearCorrections,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: CORRECTIONS_QUERY_KEY }),
+  })
+}
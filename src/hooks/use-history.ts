@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  setHistoryCorrection,
+  type NewHistoryEntry,
+} from "@/services/historyStore"
+import type { WasteCategory } from "@/services/wasteDetection"
+
+export const HISTORY_QUERY_KEY = ["history"]
+
+export function useHistoryEntries() {
+  return useQuery({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: listHistoryEntries,
+  })
+}
+
+// Every mutation refreshes the history list once it settles
+function useHistoryMutation<TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY }),
+  })
+}
+
+export function useAddHistoryEntry() {
+  return useHistoryMutation((entry: NewHistoryEntry) => addHistoryEntry(entry))
+}
+
+export function useCorrectHistoryEntry() {
+  return useHistoryMutation(({ id, category }: { id: string; category: WasteCategory }) =>
+    setHistoryCorrection(id, category)
+  )
+}
+
+export function useDeleteHistoryEntry() {
+  return useHistoryMutation((id: string) => deleteHistoryEntry(id))
+}
+
+export function useClearHistory() {
+  return useHistoryMutation(() => clearHistory())
+}
@@ -0,0 +1,62 @@
+import * as React from "react"
+import {
+  applyUpdate,
+  canInstall,
+  INSTALL_AVAILABLE_EVENT,
+  isUpdateReady,
+  promptInstall,
+  UPDATE_READY_EVENT,
+} from "@/lib/pwa"
+
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = React.useState(navigator.onLine)
+
+  React.useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    window.addEventListener("online", update)
+    window.addEventListener("offline", update)
+    return () => {
+      window.removeEventListener("online", update)
+      window.removeEventListener("offline", update)
+    }
+  }, [])
+
+  return isOnline
+}
+
+// Whether a new version of the app has been downloaded and is waiting
+export function useUpdateReady() {
+  const [isReady, setIsReady] = React.useState(isUpdateReady)
+
+  React.useEffect(() => {
+    const update = () => setIsReady(isUpdateReady())
+    window.addEventListener(UPDATE_READY_EVENT, update)
+    return () => window.removeEventListener(UPDATE_READY_EVENT, update)
+  }, [])
+
+  return { isReady, apply: applyUpdate }
+}
+
+// The browser's install prompt, available once it has decided the app is
+// installable and until it is used
+export function useInstallPrompt() {
+  const [isAvailable, setIsAvailable] = React.useState(canInstall)
+
+  React.useEffect(() => {
+    const update = () => setIsAvailable(canInstall())
+    window.addEventListener(INSTALL_AVAILABLE_EVENT, update)
+    window.addEventListener("appinstalled", update)
+    return () => {
+      window.removeEventListener(INSTALL_AVAILABLE_EVENT, update)
+      window.removeEventListener("appinstalled", update)
+    }
+  }, [])
+
+  const install = React.useCallback(async () => {
+    const installed = await promptInstall()
+    setIsAvailable(canInstall())
+    return installed
+  }, [])
+
+  return { isAvailable, install }
+}
@@ -0,0 +1,19 @@
+import * as React from "react"
+import {
+  getRegionProfile,
+  getSelectedRegionProfile,
+  setSelectedRegionProfile,
+  type RegionProfile,
+} from "@/services/regionProfiles"
+
+// The segregation rules chosen in Settings, read when the component mounts
+export function useRegionProfile(): [RegionProfile, (id: string) => void] {
+  const [profile, setProfile] = React.useState(getSelectedRegionProfile)
+
+  const selectProfile = React.useCallback((id: string) => {
+    setSelectedRegionProfile(id)
+    setProfile(getRegionProfile(id))
+  }, [])
+
+  return [profile, selectProfile]
+}
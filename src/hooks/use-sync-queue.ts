@@ -0,0 +1,49 @@
+import * as React from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { enqueueAnalysis, flushSyncQueue, listQueuedAnalyses } from "@/services/syncQueue"
+import type { ImageCrop } from "@/services/imagePreprocessing"
+import { HISTORY_QUERY_KEY } from "./use-history"
+
+export const SYNC_QUEUE_QUERY_KEY = ["sync-queue"]
+
+export function useQueuedAnalysisCount() {
+  return useQuery({
+    queryKey: SYNC_QUEUE_QUERY_KEY,
+    queryFn: async () => (await listQueuedAnalyses()).length,
+  })
+}
+
+export function useEnqueueAnalysis() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ historyId, image, crop }: { historyId: string; image: Blob; crop: ImageCrop }) =>
+      enqueueAnalysis(historyId, image, crop),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: SYNC_QUEUE_QUERY_KEY }),
+  })
+}
+
+// Sends queued analyses to the server when the app starts and whenever the
+// device comes back online, then refreshes the history with the new results
+export function useSyncOnReconnect() {
+  const queryClient = useQueryClient()
+
+  React.useEffect(() => {
+    const sync = async () => {
+      try {
+        const { synced } = await flushSyncQueue()
+        if (synced > 0) {
+          await queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY })
+        }
+      } catch (error) {
+        console.warn("Unable to sync queued analyses:", error)
+      } finally {
+        await queryClient.invalidateQueries({ queryKey: SYNC_QUEUE_QUERY_KEY })
+      }
+    }
+
+    void sync()
+    window.addEventListener("online", sync)
+    return () => window.removeEventListener("online", sync)
+  }, [queryClient])
+}
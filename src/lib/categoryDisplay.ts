@@ -0,0 +1,72 @@
+import { getMaterialPath, WASTE_TAXONOMY, type TaxonomyColor } from "@/data/wasteTaxonomy";
+import type { BinColor } from "@/services/regionProfiles";
+import type { PointKind } from "@/services/collectionPoints";
+import type { WasteDetectionResult } from "@/services/wasteDetection";
+
+type ResultCategory = WasteDetectionResult["category"];
+
+// Tailwind needs every class spelled out, so each taxonomy color maps to
+// complete class names
+const COLOR_CLASSES: Record<TaxonomyColor, { badge: string; border: string; label: string }> = {
+  green: { badge: "bg-green-100 text-green-800", border: "border-green-500", label: "bg-green-500 text-white" },
+  blue: { badge: "bg-blue-100 text-blue-800", border: "border-blue-500", label: "bg-blue-500 text-white" },
+  red: { badge: "bg-red-100 text-red-800", border: "border-red-500", label: "bg-red-500 text-white" },
+  pink: { badge: "bg-pink-100 text-pink-800", border: "border-pink-500", label: "bg-pink-500 text-white" },
+  purple: { badge: "bg-purple-100 text-purple-800", border: "border-purple-500", label: "bg-purple-500 text-white" },
+  amber: { badge: "bg-amber-100 text-amber-800", border: "border-amber-500", label: "bg-amber-500 text-white" }
+};
+
+const UNKNOWN_CLASSES = { badge: "bg-gray-100 text-gray-800", border: "border-gray-500", label: "bg-gray-500 text-white" };
+
+const findCategory = (category: string) => WASTE_TAXONOMY.find(entry => entry.id === category);
+
+const getColorClasses = (category: string) => {
+  const entry = findCategory(category);
+  return entry ? COLOR_CLASSES[entry.color] : UNKNOWN_CLASSES;
+};
+
+export const getCategoryColor = (category: string) => getColorClasses(category).badge;
+
+export const getCategoryIcon = (category: string) => findCategory(category)?.icon ?? "❓";
+
+export const getCategoryTitle = (category: ResultCategory) =>
+  category === "uncertain" ? "Not Sure Yet" : findCategory(category)?.name ?? category;
+
+// Outline and label colors for bounding boxes drawn over a photo
+export const getCategoryBoxColor = (category: string) => {
+  const { border, label } = getColorClasses(category);
+  return { border, label };
+};
+
+// "Recyclable › PET plastic" for a recognised material
+export const getMaterialBreadcrumb = (materialId?: string) => {
+  const path = materialId ? getMaterialPath(materialId) : null;
+  return path ? `${path.subcategory.name} › ${path.material.name}` : null;
+};
+
+// Swatch and badge classes for the physical bin colors of a region profile
+const BIN_COLOR_CLASSES: Record<BinColor, { swatch: string; badge: string }> = {
+  green: { swatch: "bg-green-600", badge: "bg-green-100 text-green-800" },
+  blue: { swatch: "bg-blue-600", badge: "bg-blue-100 text-blue-800" },
+  red: { swatch: "bg-red-600", badge: "bg-red-100 text-red-800" },
+  black: { swatch: "bg-gray-900", badge: "bg-gray-800 text-white" },
+  yellow: { swatch: "bg-yellow-400", badge: "bg-yellow-100 text-yellow-800" },
+  grey: { swatch: "bg-gray-400", badge: "bg-gray-100 text-gray-800" },
+  brown: { swatch: "bg-amber-800", badge: "bg-amber-100 text-amber-900" },
+  purple: { swatch: "bg-purple-600", badge: "bg-purple-100 text-purple-800" }
+};
+
+export const getBinColor = (color: BinColor) => BIN_COLOR_CLASSES[color];
+
+// Label and marker classes for the kinds of collection point
+const POINT_KIND_DISPLAY: Record<PointKind, { label: string; icon: string; marker: string; badge: string }> = {
+  recycling: { label: "Recycling centre", icon: "♻️", marker: "fill-blue-600", badge: "bg-blue-100 text-blue-800" },
+  "e-waste": { label: "E-waste", icon: "🔌", marker: "fill-red-600", badge: "bg-red-100 text-red-800" },
+  hazardous: { label: "Hazardous waste", icon: "☣️", marker: "fill-orange-600", badge: "bg-orange-100 text-orange-800" },
+  pharmacy: { label: "Medicine take-back", icon: "💊", marker: "fill-purple-600", badge: "bg-purple-100 text-purple-800" },
+  textiles: { label: "Textile bank", icon: "👕", marker: "fill-teal-600", badge: "bg-teal-100 text-teal-800" },
+  construction: { label: "Construction debris", icon: "🧱", marker: "fill-amber-700", badge: "bg-amber-100 text-amber-900" },
+  sanitary: { label: "Sanitary waste", icon: "🩹", marker: "fill-pink-600", badge: "bg-pink-100 text-pink-800" }
+};
+
+export const getPointKindDisplay = (kind: PointKind) => POINT_KIND_DISPLAY[kind];
@@ -0,0 +1,54 @@
+// Helpers for reading files out of drag-and-drop events, including whole
+// folders, which browsers expose through the (non-standard) entries API
+
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+
+    // readEntries returns results in batches until it returns an empty one
+    const readBatch = () => {
+      reader.readEntries(batch => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+
+    readBatch();
+  });
+
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(entryToFiles));
+    return nested.flat();
+  }
+
+  return [];
+};
+
+// Every file in a drop, descending into dropped folders
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be collected synchronously, the list is cleared after the event
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(entries.map(entryToFiles));
+  return files.flat();
+};
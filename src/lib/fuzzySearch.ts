@@ -0,0 +1,83 @@
+// Small fuzzy matcher for the item lookup. Each candidate has a few names
+// (name plus aliases); the best-matching name decides its score, and a typo
+// or two still finds the item.
+
+export interface SearchMatch<T> {
+  item: T;
+  score: number;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+
+// Levenshtein distance, giving up once it is larger than maxDistance
+const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos allowed in a word of this length
+const allowedTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+// How well one query word matches one word of a name, 0 for no match
+const scoreWord = (queryWord: string, word: string): number => {
+  if (word === queryWord) return 1;
+  if (word.startsWith(queryWord)) return 0.8;
+
+  const typos = allowedTypos(queryWord.length);
+  if (typos === 0) return 0;
+  // Compare against the start of longer words so a half-typed word still counts
+  const distance = editDistance(queryWord, word.slice(0, queryWord.length + typos), typos);
+  return distance <= typos ? 0.6 - distance * 0.1 : 0;
+};
+
+const scoreName = (query: string, queryWords: string[], name: string): number => {
+  const text = normalize(name);
+  if (text === query) return 100;
+  if (text.startsWith(query)) return 90;
+  if (` ${text}`.includes(` ${query}`)) return 75;
+
+  // Every query word has to match some word of the name
+  const words = text.split(" ");
+  let total = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.max(0, ...words.map(word => scoreWord(queryWord, word)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return (total / queryWords.length) * 60;
+};
+
+export const fuzzySearch = <T>(
+  items: T[],
+  query: string,
+  getNames: (item: T) => string[],
+  limit = 20
+): SearchMatch<T>[] => {
+  const normalized = normalize(query);
+  if (!normalized) return [];
+  const queryWords = normalized.split(" ");
+
+  return items
+    .map(item => {
+      // The primary name wins ties with an alias
+      const scores = getNames(item).map((name, index) => scoreName(normalized, queryWords, name) - (index > 0 ? 1 : 0));
+      return { item, score: Math.max(0, ...scores) };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,87 @@
+// Checks applied to every image before it is sent for classification,
+// whether it was picked, dropped, pasted or captured
+
+// Large photos are downscaled before analysis, this only guards against
+// files too big to decode comfortably on a phone
+export const MAX_IMAGE_SIZE = 30 * 1024 * 1024;
+
+// What the upload hints name, HEIC is converted before analysis
+export const SUPPORTED_IMAGE_FORMATS = ["JPEG", "PNG", "WebP", "GIF", "HEIC", "AVIF"];
+
+// Image types browsers report but cannot decode onto a canvas
+const UNSUPPORTED_IMAGE_TYPES = ["image/tiff", "image/svg+xml"];
+
+// Some systems report no MIME type for these, so fall back to the extension
+const IMAGE_EXTENSIONS = /\.(heic|heif|avif)$/i;
+
+const isImageFile = (file: File) =>
+  file.type.startsWith("image/") || (file.type === "" && IMAGE_EXTENSIONS.test(file.name));
+
+export type ImageValidationCode = "not-an-image" | "unsupported-format" | "empty" | "too-large";
+
+export interface ImageValidationError {
+  code: ImageValidationCode;
+  title: string;
+  description: string;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+// "Supported formats: ..." hint shown next to upload buttons
+export const IMAGE_REQUIREMENTS =
+  `Supported formats: ${SUPPORTED_IMAGE_FORMATS.join(", ")} (up to ${MAX_IMAGE_SIZE / (1024 * 1024)}MB, large photos are downscaled)`;
+
+// Returns null when the file can be classified, otherwise why it cannot
+export const validateImageFile = (file: File): ImageValidationError | null => {
+  if (!isImageFile(file)) {
+    return {
+      code: "not-an-image",
+      title: "Invalid File Type",
+      description: `${file.name} is not an image. Please upload a JPEG, PNG, WebP or HEIC photo.`
+    };
+  }
+
+  if (UNSUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    const format = file.type.replace("image/", "").replace("+xml", "").toUpperCase();
+    return {
+      code: "unsupported-format",
+      title: "Unsupported Image Format",
+      description: `${format} images cannot be analyzed in the browser. Please convert ${file.name} to JPEG or PNG.`
+    };
+  }
+
+  if (file.size === 0) {
+    return {
+      code: "empty",
+      title: "Empty File",
+      description: `${file.name} contains no image data.`
+    };
+  }
+
+  if (file.size > MAX_IMAGE_SIZE) {
+    return {
+      code: "too-large",
+      title: "File Too Large",
+      description: `${file.name} is ${formatSize(file.size)}. Please upload an image smaller than ${formatSize(MAX_IMAGE_SIZE)}.`
+    };
+  }
+
+  return null;
+};
+
+// Split files into those that can be classified and those that cannot
+export const partitionImageFiles = (files: File[]) => {
+  const valid: File[] = [];
+  const invalid: { file: File; error: ImageValidationError }[] = [];
+
+  files.forEach(file => {
+    const error = validateImageFile(file);
+    if (error) {
+      invalid.push({ file, error });
+    } else {
+      valid.push(file);
+    }
+  });
+
+  return { valid, invalid };
+};
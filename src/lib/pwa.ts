@@ -0,0 +1,82 @@
+// Service worker registration, install prompt and update handling. The
+// browser fires beforeinstallprompt once, early, so it is captured here at
+// startup and handed to whichever screen offers installing the app.
+
+export const INSTALL_AVAILABLE_EVENT = "pwa-install-available";
+export const UPDATE_READY_EVENT = "pwa-update-ready";
+
+// Not in the DOM typings yet
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+let installPrompt: BeforeInstallPromptEvent | null = null;
+let waitingWorker: ServiceWorker | null = null;
+
+export const canInstall = () => installPrompt !== null;
+
+// Shows the browser's install dialog, resolving to whether the app was installed
+export const promptInstall = async (): Promise<boolean> => {
+  if (!installPrompt) return false;
+  const prompt = installPrompt;
+  installPrompt = null;
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  return outcome === "accepted";
+};
+
+export const isUpdateReady = () => waitingWorker !== null;
+
+// Let the new service worker take over and reload once it has
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: "skip-waiting" });
+};
+
+const setWaitingWorker = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  window.dispatchEvent(new Event(UPDATE_READY_EVENT));
+};
+
+export const registerServiceWorker = () => {
+  window.addEventListener("beforeinstallprompt", event => {
+    event.preventDefault();
+    installPrompt = event as BeforeInstallPromptEvent;
+    window.dispatchEvent(new Event(INSTALL_AVAILABLE_EVENT));
+  });
+  window.addEventListener("appinstalled", () => {
+    installPrompt = null;
+  });
+
+  // The dev server has no precache manifest and changes on every save
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", async () => {
+    try {
+      // Under the app's base URL, which is also the worker's scope
+      const registration = await navigator.serviceWorker.register(
+        `${import.meta.env.BASE_URL}sw.js?build=${__BUILD_ID__}`,
+        { scope: import.meta.env.BASE_URL }
+      );
+
+      // An update that finished installing while the page was closed
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+      }
+
+      registration.addEventListener("updatefound", () => {
+        const worker = registration.installing;
+        worker?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update
+          if (worker.state === "installed" && navigator.serviceWorker.controller) {
+            setWaitingWorker(worker);
+          }
+        });
+      });
+    } catch (error) {
+      console.warn("Service worker registration failed, the app will not work offline:", error);
+    }
+  });
+};
@@ -0,0 +1,4 @@
+import { QueryClient } from "@tanstack/react-query";
+
+// Shared by the React tree and services that fetch outside of components
+export const queryClient = new QueryClient();
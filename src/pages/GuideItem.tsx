@@ -0,0 +1,102 @@
+import { useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft } from "lucide-react";
+import ItemGuidance from "@/components/ItemGuidance";
+import { useRegionProfile } from "@/hooks/use-region-profile";
+import { getCatalogueItem, getRelatedItems } from "@/data/itemCatalogue";
+import { getCategoryColor } from "@/lib/categoryDisplay";
+
+const GuideItem = () => {
+  const { itemId = "" } = useParams();
+  const [profile] = useRegionProfile();
+  const item = getCatalogueItem(itemId);
+
+  // Following a related item link keeps the scroll position otherwise
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [itemId]);
+
+  if (!item) {
+    return (
+      <div className="min-h-screen bg-background py-8">
+        <div className="max-w-3xl mx-auto px-4 text-center">
+          <h1 className="text-3xl font-bold text-foreground mb-4">Item Not Found</h1>
+          <p className="text-muted-foreground mb-6">
+            We don't have a guide entry for "{itemId}". Try searching the Segregation Guide instead.
+          </p>
+          <Link to="/guide">
+            <Button>Back to the Guide</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const related = getRelatedItems(item);
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-3xl mx-auto px-4">
+        <Link to="/guide" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Segregation Guide
+        </Link>
+
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2 flex items-center gap-3">
+            <span>{item.path.category.icon}</span>
+            {item.name}
+          </h1>
+          <p className="text-muted-foreground mb-3">
+            {item.path.category.name} › {item.path.subcategory.name} › {item.path.material.name}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Badge className={getCategoryColor(item.path.category.id)}>{item.path.category.name}</Badge>
+            <Badge variant="outline">{item.path.material.name}</Badge>
+            {item.aliases.map(alias => (
+              <Badge key={alias} variant="secondary">{alias}</Badge>
+            ))}
+          </div>
+        </div>
+
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle>How to Dispose of It</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ItemGuidance item={item} profile={profile} />
+          </CardContent>
+        </Card>
+
+        {related.length > 0 && (
+          <Card className="mt-8 border-border">
+            <CardHeader>
+              <CardTitle>Related Items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid sm:grid-cols-2 gap-2">
+                {related.map(relatedItem => (
+                  <Link
+                    key={relatedItem.id}
+                    to={`/guide/${relatedItem.id}`}
+                    className="flex items-center gap-2 p-3 rounded-lg border border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <span>{relatedItem.path.category.icon}</span>
+                    <span className="text-sm font-medium">{relatedItem.name}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">{relatedItem.path.material.name}</span>
+                  </Link>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuideItem;
@@ -0,0 +1,374 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, endOfDay, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination";
+import { Brain, CalendarIcon, Download, History as HistoryIcon, Search, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useClearHistory, useDeleteHistoryEntry, useHistoryEntries } from "@/hooks/use-history";
+import { useCorrections } from "@/hooks/use-corrections";
+import CustomModelPanel from "@/components/CustomModelPanel";
+import { downloadBlob } from "@/lib/zip";
+import { exportCorrectionsDataset } from "@/services/correctionStore";
+import { getCategoryColor, getCategoryIcon, getCategoryTitle } from "@/lib/categoryDisplay";
+import { WASTE_CATEGORY_IDS } from "@/data/wasteTaxonomy";
+import { getEntryCategory, type HistoryEntry } from "@/services/historyStore";
+import type { WasteDetectionResult } from "@/services/wasteDetection";
+
+type CategoryFilter = "all" | WasteDetectionResult["category"];
+
+const CATEGORY_FILTERS: CategoryFilter[] = ["all", ...WASTE_CATEGORY_IDS, "uncertain"];
+
+const PAGE_SIZE = 10;
+
+// Page numbers to show, collapsing long runs into an ellipsis
+const getPageNumbers = (current: number, total: number): (number | "ellipsis")[] => {
+  if (total <= 7) {
+    return Array.from({ length: total }, (_, index) => index + 1);
+  }
+
+  const pages: (number | "ellipsis")[] = [1];
+  const start = Math.max(2, current - 1);
+  const end = Math.min(total - 1, current + 1);
+
+  if (start > 2) pages.push("ellipsis");
+  for (let page = start; page <= end; page++) pages.push(page);
+  if (end < total - 1) pages.push("ellipsis");
+  pages.push(total);
+
+  return pages;
+};
+
+const matchesSearch = (entry: HistoryEntry, query: string) => {
+  const text = [
+    entry.fileName,
+    ...entry.result.items,
+    ...entry.result.predictions.map(prediction => prediction.label)
+  ].join(" ").toLowerCase();
+
+  return text.includes(query.toLowerCase());
+};
+
+const History = () => {
+  const [category, setCategory] = useState<CategoryFilter>("all");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+  const { data: entries = [], isLoading, isError } = useHistoryEntries();
+  const deleteEntry = useDeleteHistoryEntry();
+  const clearHistory = useClearHistory();
+  const { data: corrections = [] } = useCorrections();
+  const { toast } = useToast();
+
+  const filteredEntries = useMemo(() => entries.filter(entry => {
+    if (category !== "all" && getEntryCategory(entry) !== category) return false;
+    if (dateRange?.from && entry.createdAt < startOfDay(dateRange.from).getTime()) return false;
+    if (dateRange?.from && entry.createdAt > endOfDay(dateRange.to ?? dateRange.from).getTime()) return false;
+    if (search.trim() && !matchesSearch(entry, search.trim())) return false;
+    return true;
+  }), [entries, category, dateRange, search]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredEntries.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageEntries = filteredEntries.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  const hasFilters = category !== "all" || !!dateRange?.from || search.trim() !== "";
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const resetFilters = () => {
+    setCategory("all");
+    setDateRange(undefined);
+    setSearch("");
+    setPage(1);
+  };
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  const handleDelete = (entry: HistoryEntry) => {
+    deleteEntry.mutate(entry.id, {
+      onSuccess: () => toast({ title: "Analysis Deleted", description: entry.fileName }),
+      onError: () => toast({ title: "Delete Failed", description: "Please try again.", variant: "destructive" })
+    });
+  };
+
+  const handleClear = () => {
+    clearHistory.mutate(undefined, {
+      onSuccess: () => toast({ title: "History Cleared" })
+    });
+  };
+
+  // Download corrected images and their labels as a dataset for retraining
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const dataset = await exportCorrectionsDataset(corrections);
+      downloadBlob(dataset, `waste-corrections-${format(new Date(), "yyyy-MM-dd")}.zip`);
+    } catch (error) {
+      console.error('Corrections export failed:', error);
+      toast({ title: "Export Failed", description: "The dataset could not be created.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatDateRange = () => {
+    if (!dateRange?.from) return "Any date";
+    if (!dateRange.to) return format(dateRange.from, "MMM d, yyyy");
+    return `${format(dateRange.from, "MMM d")} - ${format(dateRange.to, "MMM d, yyyy")}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-4xl mx-auto px-4">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-4">
+            Analysis History
+          </h1>
+          <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
+            Every photo you have analyzed, stored only on this device.
+          </p>
+        </div>
+
+        {/* Personal model */}
+        <Card className="mb-6 border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="w-5 h-5" />
+              Personal Model
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CustomModelPanel correctionCount={corrections.length} />
+          </CardContent>
+        </Card>
+
+        {/* Filters */}
+        <Card className="mb-6 border-border">
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={event => updateFilter(setSearch)(event.target.value)}
+                  placeholder="Search by file name or item"
+                  className="pl-9"
+                />
+              </div>
+              <Select value={category} onValueChange={value => updateFilter(setCategory)(value as CategoryFilter)}>
+                <SelectTrigger className="md:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_FILTERS.map(filter => (
+                    <SelectItem key={filter} value={filter}>
+                      {filter === "all" ? "All categories" : getCategoryTitle(filter)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="md:w-56 justify-start font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {formatDateRange()}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={dateRange}
+                    onSelect={updateFilter(setDateRange)}
+                    disabled={{ after: new Date() }}
+                    numberOfMonths={2}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {hasFilters && (
+                <Button variant="ghost" onClick={resetFilters} className="flex items-center gap-1">
+                  <X className="w-4 h-4" />
+                  Reset
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Summary and clear all */}
+        <div className="flex items-center justify-between mb-4">
+          <p className="text-sm text-muted-foreground">
+            {filteredEntries.length} of {entries.length} {entries.length === 1 ? "analysis" : "analyses"}
+          </p>
+          <div className="flex gap-2">
+            {corrections.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={isExporting}
+                className="flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Export {corrections.length} {corrections.length === 1 ? "Correction" : "Corrections"}
+              </Button>
+            )}
+            {entries.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="flex items-center gap-2">
+                    <Trash2 className="w-4 h-4" />
+                    Clear History
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Clear all history?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This permanently removes all {entries.length} saved analyses from this device.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleClear}>Clear History</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </div>
+
+        {/* Entries */}
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-12">Loading history...</p>
+        ) : isError ? (
+          <p className="text-center text-destructive py-12">
+            History could not be loaded. Your browser may be blocking local storage.
+          </p>
+        ) : pageEntries.length === 0 ? (
+          <div className="text-center py-12">
+            <HistoryIcon className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground mb-4">
+              {entries.length === 0 ? "No analyses yet." : "No analyses match these filters."}
+            </p>
+            {entries.length === 0 && (
+              <Link to="/upload">
+                <Button>Analyze a Photo</Button>
+              </Link>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {pageEntries.map(entry => {
+              const entryCategory = getEntryCategory(entry);
+
+              return (
+                <Card key={entry.id} className="border-border">
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <img
+                      src={entry.thumbnail}
+                      alt={entry.fileName}
+                      className="w-16 h-16 rounded-md object-cover flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <Badge className={getCategoryColor(entryCategory)}>
+                          {getCategoryIcon(entryCategory)} {getCategoryTitle(entryCategory)}
+                        </Badge>
+                        {entry.correction ? (
+                          <Badge variant="outline">
+                            Corrected from {getCategoryTitle(entry.result.category)}
+                            {entry.correction.itemName && `: ${entry.correction.itemName}`}
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            {Math.round(entry.result.confidence * 100)}% confidence
+                          </span>
+                        )}
+                      </div>
+                      <p className="font-medium truncate" title={entry.fileName}>{entry.fileName}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {format(entry.createdAt, "MMM d, yyyy 'at' h:mm a")}
+                        {entry.result.items.length > 0 && ` · ${entry.result.items.join(", ")}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(entry)}
+                      aria-label={`Delete ${entry.fileName}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <Pagination className="mt-6">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={goToPage(currentPage - 1)} />
+              </PaginationItem>
+              {getPageNumbers(currentPage, pageCount).map((pageNumber, index) => (
+                <PaginationItem key={`${pageNumber}-${index}`}>
+                  {pageNumber === "ellipsis" ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={pageNumber === currentPage} onClick={goToPage(pageNumber)}>
+                      {pageNumber}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={goToPage(currentPage + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
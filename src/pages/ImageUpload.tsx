@@ -1,65 +1,245 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Upload, Camera, RefreshCw, CheckCircle, AlertTriangle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Upload, Camera, RefreshCw, CheckCircle, AlertTriangle, ScanSearch, Images, Crop, BookOpen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useClassificationQueue } from "@/hooks/use-classification-queue";
+import { useAddHistoryEntry, useCorrectHistoryEntry } from "@/hooks/use-history";
+import { useAddCorrection } from "@/hooks/use-corrections";
+import { useEnqueueAnalysis } from "@/hooks/use-sync-queue";
+import { useRegionProfile } from "@/hooks/use-region-profile";
 import { cn } from "@/lib/utils";
-import { wasteDetectionService, type WasteDetectionResult } from "@/services/wasteDetection";
+import { getDroppedFiles } from "@/lib/fileEntries";
+import { IMAGE_REQUIREMENTS, partitionImageFiles, validateImageFile } from "@/lib/imageValidation";
+import { DEFAULT_CROP_REGION, createThumbnail, normalizeImageFile, type CropRegion, type ImageCrop } from "@/services/imagePreprocessing";
+import { getCategoryColor, getCategoryIcon, getCategoryTitle, getMaterialBreadcrumb } from "@/lib/categoryDisplay";
+import { wasteDetectionService, type DetectedObject, type WasteCategory, type WasteDetectionResult } from "@/services/wasteDetection";
+import { getCategoryRecommendations } from "@/services/wasteCategories";
+import { resolveBin, resolveResultBin } from "@/services/regionProfiles";
+import { findCatalogueItem, getItemGuidance } from "@/data/itemCatalogue";
+import ManualSortingFlow from "@/components/ManualSortingFlow";
+import CorrectionForm from "@/components/CorrectionForm";
+import CameraCapture from "@/components/CameraCapture";
+import { DetectionOverlay, DetectionSummary } from "@/components/DetectionOverlay";
+import BatchClassifier from "@/components/BatchClassifier";
+import CropSelector from "@/components/CropSelector";
+import BinAdvice from "@/components/BinAdvice";
+import GuideLabel from "@/components/GuideLabel";
+import NearestDropOffPoints from "@/components/NearestDropOffPoints";
 
-// Using the interface from the service
-type AnalysisResult = WasteDetectionResult;
+// The service's result plus the part of the photo that was analyzed
+interface AnalysisResult extends WasteDetectionResult {
+  crop: ImageCrop;
+}
 
 const ImageUpload = () => {
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [detectedObjects, setDetectedObjects] = useState<DetectedObject[] | null>(null);
+  const [isDetectingObjects, setIsDetectingObjects] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [cropRegion, setCropRegion] = useState<CropRegion | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [isCorrected, setIsCorrected] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisController = useRef<AbortController | null>(null);
+  const objectDetectionController = useRef<AbortController | null>(null);
+  // Bumped whenever the shown result changes, so a history save that
+  // finishes late does not attach its id to a newer result
+  const resultVersion = useRef(0);
+  const addHistoryEntry = useAddHistoryEntry();
+  const correctHistoryEntry = useCorrectHistoryEntry();
+  const addCorrection = useAddCorrection();
+  const enqueueAnalysis = useEnqueueAnalysis();
+  const [regionProfile] = useRegionProfile();
   const { toast } = useToast();
 
-  // Real TensorFlow-based waste analysis
-  const analyzeWasteWithTensorFlow = async (file: File): Promise<AnalysisResult> => {
+  // Keep a record of every analysis for the History page. Failing to save
+  // must not get in the way of showing the result.
+  const saveToHistory = async (file: File, result: WasteDetectionResult, crop: ImageCrop) => {
     try {
-      const imageElement = await wasteDetectionService.createImageElement(file);
-      return await wasteDetectionService.detectWaste(imageElement);
+      const thumbnail = await createThumbnail(file, crop);
+      const entry = await addHistoryEntry.mutateAsync({ fileName: file.name, thumbnail, result, crop });
+      // Analyzed in the browser while the server was unreachable, send it
+      // again once it can be reached
+      if (wasteDetectionService.needsServerSync(result)) {
+        await enqueueAnalysis.mutateAsync({ historyId: entry.id, image: file, crop });
+      }
+      return entry.id;
+    } catch (error) {
+      console.warn('Unable to save analysis to history:', error);
+      return null;
+    }
+  };
+
+  // Batch items are analyzed with the default centered crop
+  const batchQueue = useClassificationQueue({
+    onResult: (file, result) => saveToHistory(file, result, 'center')
+  });
+
+  // Stop any running analysis when leaving the page
+  useEffect(() => () => {
+    analysisController.current?.abort();
+    objectDetectionController.current?.abort();
+  }, []);
+
+  // Real TensorFlow-based waste analysis, run in a Web Worker
+  const analyzeWasteWithTensorFlow = async (file: File, crop: ImageCrop, signal: AbortSignal): Promise<AnalysisResult> => {
+    try {
+      const result = await wasteDetectionService.detectWaste(file, { signal, crop });
+      return { ...result, crop };
     } catch (error) {
       console.error('TensorFlow analysis failed:', error);
       throw error;
     }
   };
 
+  // Shared by the file picker, drag-and-drop and clipboard paste
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    // Several photos at once go to the batch queue instead of the single preview
+    if (files.length > 1) {
+      const { valid, invalid } = partitionImageFiles(files);
+      if (valid.length > 0) {
+        batchQueue.enqueue(valid);
+      }
+      toast({
+        title: valid.length > 0 ? `Queued ${valid.length} ${valid.length === 1 ? "image" : "images"}` : "No Valid Images",
+        description: invalid.length > 0
+          ? `Skipped ${invalid.length} ${invalid.length === 1 ? "file" : "files"}: ${invalid[0].error.description}`
+          : "Results will appear in Batch Classification below",
+        variant: valid.length > 0 ? "default" : "destructive"
+      });
+      return;
+    }
+
+    loadFile(files[0]);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    handleFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving over child elements also fires dragleave, only reset when leaving the zone
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+
+    // Reading a dropped folder can fail part way, e.g. when it is removed
+    let files: File[];
+    try {
+      files = await getDroppedFiles(event.dataTransfer);
+    } catch (error) {
+      console.error('Unable to read dropped files:', error);
+      toast({
+        title: "Unable to Read Files",
+        description: "The dropped files or folder could not be opened. Try selecting them instead.",
+        variant: "destructive"
+      });
+      return;
+    }
+    handleFiles(files);
+  };
+
+  // Paste screenshots and copied images anywhere on the page with Ctrl+V
+  const handleFilesRef = useRef(handleFiles);
+  handleFilesRef.current = handleFiles;
+
+  useEffect(() => {
+    if (isCameraOpen) return;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []);
+      // Leave text pastes alone
+      if (files.length === 0) return;
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
+      event.preventDefault();
+      handleFilesRef.current(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [isCameraOpen]);
+
+  // Stop the whole-image analysis and item detection, if running
+  const cancelAnalysis = () => {
+    analysisController.current?.abort();
+    analysisController.current = null;
+    objectDetectionController.current?.abort();
+    objectDetectionController.current = null;
+    setIsAnalyzing(false);
+    setIsDetectingObjects(false);
+  };
+
+  const handleCameraCapture = (file: File) => {
+    setIsCameraOpen(false);
+    loadFile(file);
+  };
+
+  const loadFile = async (selectedFile: File) => {
+    const validationError = validateImageFile(selectedFile);
+    if (validationError) {
       toast({
-        title: "Invalid File Type",
-        description: "Please upload an image file (JPEG, PNG, etc.)",
+        title: validationError.title,
+        description: validationError.description,
         variant: "destructive"
       });
       return;
     }
 
-    // Validate file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
+    // Large photos are downscaled and HEIC converted instead of rejected
+    let file: File;
+    try {
+      file = await normalizeImageFile(selectedFile);
+    } catch (error) {
       toast({
-        title: "File Too Large",
-        description: "Please upload an image smaller than 5MB",
+        title: "Unable to Open Image",
+        description: error instanceof Error ? error.message : "The image could not be read",
         variant: "destructive"
       });
       return;
     }
 
+    // Whatever was still running belongs to the previous photo, its result
+    // must not be shown over this one or saved with it
+    cancelAnalysis();
+    setAnalysisResult(null);
+    setDetectedObjects(null);
+    setCropRegion(null);
+    setIsCropping(false);
+    setHistoryEntryId(null);
+    resultVersion.current++;
+    setIsCorrecting(false);
+    setIsCorrected(false);
+
     // Store both the file and its data URL
     setUploadedFile(file);
     
     const reader = new FileReader();
     reader.onload = (e) => {
       setUploadedImage(e.target?.result as string);
-      setAnalysisResult(null);
     };
     reader.readAsDataURL(file);
 
@@ -72,6 +252,10 @@ const ImageUpload = () => {
   const analyzeImage = async () => {
     if (!uploadedFile) return;
 
+    analysisController.current?.abort();
+    const controller = new AbortController();
+    analysisController.current = controller;
+
     setIsAnalyzing(true);
     
     try {
@@ -80,14 +264,36 @@ const ImageUpload = () => {
         description: "Initializing TensorFlow.js model for analysis..."
       });
 
-      const result = await analyzeWasteWithTensorFlow(uploadedFile);
+      // Without a selection the centered square is analyzed
+      const result = await analyzeWasteWithTensorFlow(uploadedFile, cropRegion ?? 'center', controller.signal);
       setAnalysisResult(result);
+      setHistoryEntryId(null);
+      setIsCorrecting(false);
+      setIsCorrected(false);
 
-      toast({
-        title: "Analysis Complete",
-        description: `Detected ${result.category} waste with ${Math.round(result.confidence * 100)}% confidence`
-      });
+      const version = ++resultVersion.current;
+      const { crop, ...detection } = result;
+      saveToHistory(uploadedFile, detection, crop)
+        .then(id => {
+          if (resultVersion.current === version) setHistoryEntryId(id);
+        })
+        .catch(error => console.warn('Unable to save analysis to history:', error));
+
+      if (result.category === "uncertain") {
+        toast({
+          title: "Not Sure About This One",
+          description: "Answer a few quick questions to find the right bin"
+        });
+      } else {
+        toast({
+          title: "Analysis Complete",
+          description: `Detected ${getCategoryTitle(result.category).toLowerCase()} with ${Math.round(result.confidence * 100)}% confidence`
+        });
+      }
     } catch (error) {
+      // Cancelled by the user, nothing to report
+      if (controller.signal.aborted) return;
+
       console.error('Analysis failed:', error);
       toast({
         title: "Analysis Failed",
@@ -95,38 +301,154 @@ const ImageUpload = () => {
         variant: "destructive"
       });
     } finally {
-      setIsAnalyzing(false);
+      if (analysisController.current === controller) {
+        analysisController.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  const detectObjects = async () => {
+    if (!uploadedFile) return;
+
+    objectDetectionController.current?.abort();
+    const controller = new AbortController();
+    objectDetectionController.current = controller;
+
+    setIsDetectingObjects(true);
+
+    try {
+      const objects = await wasteDetectionService.detectObjects(uploadedFile, { signal: controller.signal });
+      setDetectedObjects(objects);
+
+      toast({
+        title: "Item Detection Complete",
+        description: `Found ${objects.length} ${objects.length === 1 ? "item" : "items"} in the photo`
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      console.error('Object detection failed:', error);
+      toast({
+        title: "Item Detection Failed",
+        description: "The item detection model could not be loaded. Try the whole-image analysis instead.",
+        variant: "destructive"
+      });
+    } finally {
+      if (objectDetectionController.current === controller) {
+        objectDetectionController.current = null;
+        setIsDetectingObjects(false);
+      }
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case "wet": return "bg-green-100 text-green-800";
-      case "dry": return "bg-blue-100 text-blue-800";
-      case "hazardous": return "bg-red-100 text-red-800";
-      default: return "bg-gray-100 text-gray-800";
+  const completeManualSorting = (category: WasteCategory, recommendations: string[], subcategory?: string) => {
+    setAnalysisResult(result => result && {
+      ...result,
+      category,
+      subcategory,
+      material: undefined,
+      recommendations
+    });
+    if (historyEntryId) {
+      correctHistoryEntry.mutate({ id: historyEntryId, category });
     }
+    toast({
+      title: "Category Selected",
+      description: `Sorted as ${getCategoryTitle(category).toLowerCase()}`
+    });
   };
 
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case "wet": return "💧";
-      case "dry": return "🗑️";
-      case "hazardous": return "⚠️";
-      default: return "❓";
+  // Record what the item really was so it can be used to retrain the model
+  const submitCorrection = (category: WasteCategory, itemName: string) => {
+    if (!uploadedFile || !analysisResult) return;
+
+    addCorrection.mutate({
+      historyEntryId,
+      fileName: uploadedFile.name,
+      image: uploadedFile,
+      crop: analysisResult.crop,
+      category,
+      itemName,
+      predicted: {
+        category: analysisResult.category,
+        confidence: analysisResult.confidence,
+        source: analysisResult.source,
+        topLabel: analysisResult.predictions[0]?.label ?? null
+      }
+    }, {
+      onSuccess: () => {
+        setAnalysisResult(result => result && {
+          ...result,
+          category,
+          subcategory: undefined,
+          material: undefined,
+          items: [itemName],
+          recommendations: getCategoryRecommendations(category)
+        });
+        setIsCorrecting(false);
+        setIsCorrected(true);
+        toast({
+          title: "Thanks for the Correction",
+          description: `Saved ${itemName} as ${getCategoryTitle(category).toLowerCase()}`
+        });
+      },
+      onError: () => {
+        toast({
+          title: "Correction Not Saved",
+          description: "Local storage is unavailable in this browser.",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const toggleCropping = () => {
+    if (!isCropping && !cropRegion) {
+      setCropRegion(DEFAULT_CROP_REGION);
     }
+    setIsCropping(!isCropping);
+  };
+
+  const clearCrop = () => {
+    setCropRegion(null);
+    setIsCropping(false);
   };
 
   const resetUpload = () => {
+    cancelAnalysis();
     setUploadedImage(null);
+    setDetectedObjects(null);
     setUploadedFile(null);
     setAnalysisResult(null);
-    setIsAnalyzing(false);
+    setCropRegion(null);
+    setIsCropping(false);
+    setHistoryEntryId(null);
+    resultVersion.current++;
+    setIsCorrecting(false);
+    setIsCorrected(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  // The guide entry for what the photo shows, once it has a category
+  const guideItem = analysisResult && analysisResult.category !== "uncertain"
+    ? findCatalogueItem(analysisResult.predictions[0]?.label ?? analysisResult.items[0] ?? "", {
+      category: analysisResult.category,
+      material: analysisResult.material
+    })
+    : null;
+  const guideItemGuidance = guideItem && getItemGuidance(guideItem);
+  // The guide entry knows the material even when the result does not
+  const resultBin = guideItem
+    ? resolveBin(regionProfile, {
+      category: guideItem.path.category.id,
+      subcategory: guideItem.path.subcategory.id,
+      material: guideItem.path.material.id
+    })
+    : analysisResult && resolveResultBin(regionProfile, analysisResult);
+
   return (
     <div className="min-h-screen bg-background py-8">
       <div className="max-w-4xl mx-auto px-4">
@@ -154,75 +476,127 @@ const ImageUpload = () => {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div 
-                className={cn(
-                  "border-2 border-dashed rounded-lg p-8 text-center transition-colors",
-                  uploadedImage ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
-                )}
-              >
-                {uploadedImage ? (
-                  <div className="space-y-4">
-                    <img 
-                      src={uploadedImage} 
-                      alt="Uploaded waste" 
-                      className="max-w-full h-48 object-contain mx-auto rounded-lg"
-                    />
-                    <div className="flex gap-2 justify-center">
-                      <Button 
-                        onClick={analyzeImage} 
-                        disabled={isAnalyzing}
-                        className="flex items-center gap-2"
-                      >
-                        {isAnalyzing ? (
-                          <>
+              {isCameraOpen ? (
+                <CameraCapture
+                  onCapture={handleCameraCapture}
+                  onClose={() => setIsCameraOpen(false)}
+                />
+              ) : (
+                <div 
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  className={cn(
+                    "border-2 border-dashed rounded-lg p-8 text-center transition-colors",
+                    isDragging
+                      ? "border-primary bg-primary/10"
+                      : uploadedImage ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                  )}
+                >
+                  {uploadedImage ? (
+                    <div className="space-y-4">
+                      {isCropping && cropRegion ? (
+                        <CropSelector imageSrc={uploadedImage} region={cropRegion} onChange={setCropRegion} />
+                      ) : (
+                        <DetectionOverlay imageSrc={uploadedImage} objects={detectedObjects ?? []} />
+                      )}
+                      {cropRegion && (
+                        <p className="text-xs text-muted-foreground">
+                          Only the selected area will be analyzed.{" "}
+                          <button onClick={clearCrop} className="underline hover:text-foreground">
+                            Use whole photo
+                          </button>
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-2 justify-center">
+                        <Button 
+                          onClick={analyzeImage} 
+                          disabled={isAnalyzing}
+                          className="flex items-center gap-2"
+                        >
+                          {isAnalyzing ? (
+                            <>
+                              <RefreshCw className="w-4 h-4 animate-spin" />
+                              Analyzing...
+                            </>
+                          ) : (
+                            <>
+                              <Camera className="w-4 h-4" />
+                              Analyze Waste
+                            </>
+                          )}
+                        </Button>
+                        <Button 
+                          variant="secondary"
+                          onClick={detectObjects} 
+                          disabled={isDetectingObjects}
+                          className="flex items-center gap-2"
+                        >
+                          {isDetectingObjects ? (
                             <RefreshCw className="w-4 h-4 animate-spin" />
-                            Analyzing...
-                          </>
-                        ) : (
-                          <>
-                            <Camera className="w-4 h-4" />
-                            Analyze Waste
-                          </>
-                        )}
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        onClick={resetUpload}
-                        disabled={isAnalyzing}
-                      >
-                        Upload New
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    <Upload className="w-12 h-12 text-muted-foreground mx-auto" />
-                    <div>
-                      <h3 className="text-lg font-semibold mb-2">Upload Waste Image</h3>
-                      <p className="text-muted-foreground mb-4">
-                        Take a photo or upload an image of waste items
-                      </p>
-                      <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept="image/*"
-                        onChange={handleFileUpload}
-                        className="hidden"
-                      />
-                      <Button 
-                        onClick={() => fileInputRef.current?.click()}
-                        className="flex items-center gap-2"
-                      >
-                        <Upload className="w-4 h-4" />
-                        Choose File
-                      </Button>
+                          ) : (
+                            <ScanSearch className="w-4 h-4" />
+                          )}
+                          Find Items
+                        </Button>
+                        <Button 
+                          variant={isCropping ? "default" : "secondary"}
+                          onClick={toggleCropping} 
+                          disabled={isAnalyzing}
+                          className="flex items-center gap-2"
+                        >
+                          <Crop className="w-4 h-4" />
+                          {isCropping ? "Done" : cropRegion ? "Edit Crop" : "Crop"}
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          onClick={resetUpload}
+                        >
+                          {isAnalyzing || isDetectingObjects ? "Cancel" : "Upload New"}
+                        </Button>
+                      </div>
                     </div>
-                    <div className="text-xs text-muted-foreground">
-                      Supported formats: JPEG, PNG, GIF (max 5MB)
+                  ) : (
+                    <div className="space-y-4">
+                      <Upload className="w-12 h-12 text-muted-foreground mx-auto" />
+                      <div>
+                        <h3 className="text-lg font-semibold mb-2">Upload Waste Image</h3>
+                        <p className="text-muted-foreground mb-4">
+                          Take a photo, drop an image here or paste one with Ctrl+V
+                        </p>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept="image/*,.heic,.heif"
+                          multiple
+                          onChange={handleFileUpload}
+                          className="hidden"
+                        />
+                        <div className="flex flex-wrap gap-2 justify-center">
+                          <Button 
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex items-center gap-2"
+                          >
+                            <Upload className="w-4 h-4" />
+                            Choose File
+                          </Button>
+                          <Button 
+                            variant="outline"
+                            onClick={() => setIsCameraOpen(true)}
+                            className="flex items-center gap-2"
+                          >
+                            <Camera className="w-4 h-4" />
+                            Use Camera
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {IMAGE_REQUIREMENTS}
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -251,40 +625,172 @@ const ImageUpload = () => {
                       {getCategoryIcon(analysisResult.category)}
                     </div>
                     <h3 className="text-2xl font-bold mb-2">
-                      {analysisResult.category.charAt(0).toUpperCase() + analysisResult.category.slice(1)} Waste
+                      {getCategoryTitle(analysisResult.category)}
                     </h3>
+                    {getMaterialBreadcrumb(analysisResult.material) && (
+                      <p className="text-sm text-muted-foreground mb-2">
+                        {getMaterialBreadcrumb(analysisResult.material)}
+                      </p>
+                    )}
                     <Badge className={getCategoryColor(analysisResult.category)}>
                       {Math.round(analysisResult.confidence * 100)}% Confidence
                     </Badge>
+                    {analysisResult.source === "heuristic" && (
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Estimated from image colours only. The AI model was unavailable or could not recognise the item.
+                      </p>
+                    )}
+                    {analysisResult.source === "custom" && (
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Classified by your personal model, trained on your corrections.
+                      </p>
+                    )}
+                    {analysisResult.source === "server" && (
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Classified by the server set up in Settings.
+                      </p>
+                    )}
+                    {analysisResult.source === "ensemble" && (
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Combined from several classifiers weighted by how reliable each one is.
+                      </p>
+                    )}
+                    {typeof analysisResult.crop === "object" && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Based on the area you selected.
+                      </p>
+                    )}
+                    {isCorrected ? (
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Corrected by you. Thanks for helping improve the model!
+                      </p>
+                    ) : analysisResult.category !== "uncertain" && !isCorrecting && (
+                      <Button variant="link" size="sm" onClick={() => setIsCorrecting(true)} className="mt-2 text-muted-foreground">
+                        This is wrong
+                      </Button>
+                    )}
                   </div>
 
-                  {/* Detected Items */}
-                  <div>
-                    <h4 className="font-semibold mb-3 flex items-center gap-2">
-                      <AlertTriangle className="w-4 h-4" />
-                      Detected Items:
-                    </h4>
-                    <div className="flex flex-wrap gap-2">
-                      {analysisResult.items.map((item, index) => (
-                        <Badge key={index} variant="outline">
-                          {item}
-                        </Badge>
-                      ))}
+                  {/* Correction */}
+                  {isCorrecting && (
+                    <div className="p-4 rounded-lg border border-border">
+                      <h4 className="font-semibold mb-3">Correct This Result:</h4>
+                      <CorrectionForm
+                        detectedCategory={analysisResult.category}
+                        isSaving={addCorrection.isPending}
+                        onSubmit={submitCorrection}
+                        onCancel={() => setIsCorrecting(false)}
+                      />
                     </div>
-                  </div>
+                  )}
 
-                  {/* Recommendations */}
+                  {/* Category Scores */}
                   <div>
-                    <h4 className="font-semibold mb-3">Recommendations:</h4>
-                    <ul className="space-y-2">
-                      {analysisResult.recommendations.map((rec, index) => (
-                        <li key={index} className="flex items-start gap-2">
-                          <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
-                          <span className="text-sm">{rec}</span>
-                        </li>
-                      ))}
-                    </ul>
+                    <h4 className="font-semibold mb-3">Category Scores:</h4>
+                    <div className="space-y-2">
+                      {Object.entries(analysisResult.probabilities)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([wasteType, probability]) => (
+                          <div key={wasteType} className="space-y-1">
+                            <div className="flex justify-between text-sm">
+                              <span className="capitalize">{wasteType}</span>
+                              <span className="text-muted-foreground">{Math.round(probability * 100)}%</span>
+                            </div>
+                            <Progress value={probability * 100} className="h-2" />
+                          </div>
+                        ))}
+                    </div>
                   </div>
+
+                  {/* Detected Items */}
+                  {(analysisResult.predictions.length > 0 || analysisResult.items.length > 0) && (
+                    <div>
+                      <h4 className="font-semibold mb-3 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Detected Items:
+                      </h4>
+                      {analysisResult.predictions.length > 0 ? (
+                        <ul className="space-y-2">
+                          {analysisResult.predictions.map((prediction, index) => (
+                            <li key={index} className="flex items-center justify-between gap-2">
+                              <GuideLabel label={prediction.label} />
+                              <div className="flex items-center gap-2">
+                                {prediction.wasteType !== "unknown" && (
+                                  <Badge variant="secondary" className="capitalize">
+                                    {prediction.wasteType}
+                                  </Badge>
+                                )}
+                                <Badge variant="outline">
+                                  {(prediction.score * 100).toFixed(1)}%
+                                </Badge>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {analysisResult.items.map((item, index) => (
+                            <Badge key={index} variant="outline">
+                              <GuideLabel label={item} />
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Manual Sorting */}
+                  {analysisResult.category === "uncertain" && (
+                    <div className="p-4 rounded-lg border border-border">
+                      <h4 className="font-semibold mb-3">Help Us Sort It:</h4>
+                      <ManualSortingFlow onComplete={completeManualSorting} />
+                    </div>
+                  )}
+
+                  {/* Bin for the selected region */}
+                  {resultBin && <BinAdvice bin={resultBin} profile={regionProfile} />}
+
+                  {/* Where to take the item, if anywhere takes it */}
+                  {analysisResult.category !== "uncertain" && (
+                    <NearestDropOffPoints
+                      category={analysisResult.category}
+                      material={guideItem?.material ?? analysisResult.material}
+                      profile={regionProfile}
+                    />
+                  )}
+
+                  {/* Disposal instructions for the recognised item, general advice otherwise */}
+                  {guideItem && guideItemGuidance && guideItemGuidance.preparation.length > 0 ? (
+                    <div>
+                      <h4 className="font-semibold mb-3">How to Dispose of {guideItem.name}:</h4>
+                      <ul className="space-y-2">
+                        {guideItemGuidance.preparation.map(step => (
+                          <li key={step} className="flex items-start gap-2">
+                            <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm">{step}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : (
+                    <div>
+                      <h4 className="font-semibold mb-3">Recommendations:</h4>
+                      <ul className="space-y-2">
+                        {analysisResult.recommendations.map((rec, index) => (
+                          <li key={index} className="flex items-start gap-2">
+                            <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm">{rec}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {guideItem && (
+                    <Link to={`/guide/${guideItem.id}`} className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+                      <BookOpen className="w-4 h-4" />
+                      Learn more about {guideItem.name.toLowerCase()}: hazards, common mistakes and composting
+                    </Link>
+                  )}
                 </div>
               ) : (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -299,6 +805,34 @@ const ImageUpload = () => {
           </Card>
         </div>
 
+        {/* Multi-item Detection */}
+        {detectedObjects && (
+          <Card className="mt-8 border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanSearch className="w-5 h-5" />
+                Items in This Photo
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DetectionSummary objects={detectedObjects} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Batch Classification */}
+        <Card className="mt-8 border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Images className="w-5 h-5" />
+              Batch Classification
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BatchClassifier queue={batchQueue} />
+          </CardContent>
+        </Card>
+
         {/* Information Section */}
         <Card className="mt-12 border-border">
           <CardHeader>
@@ -0,0 +1,286 @@
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Clock, ExternalLink, List, LocateFixed, Map as MapIcon, MapPin, Phone, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useRegionProfile } from "@/hooks/use-region-profile";
+import CollectionPointMap from "@/components/CollectionPointMap";
+import { cn } from "@/lib/utils";
+import { getPointKindDisplay } from "@/lib/categoryDisplay";
+import { getMaterialPath, WASTE_CATEGORY_IDS } from "@/data/wasteTaxonomy";
+import { REGION_PROFILES } from "@/services/regionProfiles";
+import {
+  COLLECTION_POINTS,
+  findCollectionPoints,
+  findLocality,
+  getAcceptedMaterials,
+  getCurrentLocation,
+  getLastLocation,
+  setLastLocation,
+  type CollectionPoint,
+  type GeoPoint
+} from "@/services/collectionPoints";
+
+const ALL = "all";
+// The map only makes sense for points close together
+const MAP_POINT_LIMIT = 15;
+
+const MATERIAL_OPTIONS = getAcceptedMaterials()
+  .flatMap(id => {
+    const path = getMaterialPath(id);
+    return path ? [{ id, name: path.material.name }] : [];
+  })
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const REGIONS_WITH_POINTS = REGION_PROFILES.filter(profile => COLLECTION_POINTS.some(point => point.region === profile.id));
+
+const formatDistance = (km: number) => km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+const Locator = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [profile] = useRegionProfile();
+  const { toast } = useToast();
+  const [origin, setOrigin] = useState<GeoPoint | null>(getLastLocation);
+  const [originLabel, setOriginLabel] = useState<string | null>(() => getLastLocation() && "your last location");
+  const [address, setAddress] = useState("");
+  const [isLocating, setIsLocating] = useState(false);
+  // Without a location, start with the points of the city chosen in Settings
+  const [region, setRegion] = useState(() =>
+    !origin && REGIONS_WITH_POINTS.some(option => option.id === profile.id) ? profile.id : ALL
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const material = searchParams.get("material") ?? ALL;
+  const categoryParam = searchParams.get("category");
+  const category = WASTE_CATEGORY_IDS.find(id => id === categoryParam);
+
+  const results = useMemo(() => findCollectionPoints(origin, {
+    material: material === ALL ? undefined : material,
+    category: material === ALL ? category : undefined,
+    region: region === ALL ? undefined : region
+  }), [origin, material, category, region]);
+
+  const selectMaterial = (value: string) => {
+    setSearchParams(value === ALL ? {} : { material: value }, { replace: true });
+  };
+
+  const applyOrigin = (location: GeoPoint, label: string) => {
+    setOrigin(location);
+    setOriginLabel(label);
+    setLastLocation(location);
+    // Sorting by distance already puts the local points first
+    setRegion(ALL);
+  };
+
+  const locateMe = async () => {
+    setIsLocating(true);
+    try {
+      applyOrigin(await getCurrentLocation(), "your location");
+    } catch (error) {
+      toast({
+        title: "Location unavailable",
+        description: error instanceof Error ? error.message : "Unable to find your location. Try typing a neighbourhood instead.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const searchAddress = (event: React.FormEvent) => {
+    event.preventDefault();
+    const locality = findLocality(address);
+    if (locality) {
+      applyOrigin(locality, locality.name);
+    } else {
+      toast({
+        title: "Place not found",
+        description: "Try the name of a neighbourhood, for example \"Koramangala\" or \"Brixton\".",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-foreground mb-4">
+            Collection Point Locator
+          </h1>
+          <p className="text-xl text-muted-foreground max-w-3xl mx-auto">
+            Find where to drop off batteries, electronics, chemicals, medicines and other waste your bins don't take.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-8 border-border">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex flex-col md:flex-row gap-3">
+              <Button onClick={locateMe} disabled={isLocating} className="md:w-auto">
+                <LocateFixed className={cn("w-4 h-4 mr-2", isLocating && "animate-pulse")} />
+                {isLocating ? "Locating..." : "Use My Location"}
+              </Button>
+              <form onSubmit={searchAddress} className="flex flex-1 gap-2">
+                <Input
+                  value={address}
+                  onChange={event => setAddress(event.target.value)}
+                  placeholder="Or type a neighbourhood, e.g. Koramangala"
+                />
+                <Button type="submit" variant="outline" disabled={!address.trim()}>
+                  <Search className="w-4 h-4" />
+                </Button>
+              </form>
+            </div>
+            <div className="grid sm:grid-cols-2 gap-3">
+              <Select value={material} onValueChange={selectMaterial}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Accepted material" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>
+                    {category ? `Anything ${category}` : "Any material"}
+                  </SelectItem>
+                  {MATERIAL_OPTIONS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={region} onValueChange={setRegion}>
+                <SelectTrigger>
+                  <SelectValue placeholder="City" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All cities</SelectItem>
+                  {REGIONS_WITH_POINTS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {originLabel && (
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-4 h-4" />
+                Sorted by distance from {originLabel}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Tabs defaultValue="list">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-muted-foreground">
+              {results.length} {results.length === 1 ? "collection point" : "collection points"}
+            </p>
+            <TabsList>
+              <TabsTrigger value="list">
+                <List className="w-4 h-4 mr-2" />
+                List
+              </TabsTrigger>
+              <TabsTrigger value="map">
+                <MapIcon className="w-4 h-4 mr-2" />
+                Map
+              </TabsTrigger>
+            </TabsList>
+          </div>
+
+          <TabsContent value="list" className="space-y-4">
+            {results.length === 0 && (
+              <p className="text-muted-foreground text-center py-12">
+                No collection points match these filters.
+              </p>
+            )}
+            {results.map(({ point, distance }) => (
+              <CollectionPointCard key={point.id} point={point} distance={distance} isSelected={point.id === selectedId} />
+            ))}
+          </TabsContent>
+
+          <TabsContent value="map" className="space-y-4">
+            <CollectionPointMap
+              points={results.slice(0, MAP_POINT_LIMIT)}
+              origin={origin}
+              selectedId={selectedId}
+              onSelect={setSelectedId}
+            />
+            {results.length > MAP_POINT_LIMIT && (
+              <p className="text-sm text-muted-foreground text-center">
+                Showing the first {MAP_POINT_LIMIT} points. Narrow the filters to see others.
+              </p>
+            )}
+            {results
+              .filter(({ point }) => point.id === selectedId)
+              .map(({ point, distance }) => (
+                <CollectionPointCard key={point.id} point={point} distance={distance} isSelected />
+              ))}
+          </TabsContent>
+        </Tabs>
+
+        <p className="text-xs text-muted-foreground text-center mt-8">
+          Opening hours and accepted materials change, so check with the site before making a special trip.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+interface CollectionPointCardProps {
+  point: CollectionPoint;
+  distance: number | null;
+  isSelected: boolean;
+}
+
+const CollectionPointCard = ({ point, distance, isSelected }: CollectionPointCardProps) => {
+  const kind = getPointKindDisplay(point.kind);
+
+  return (
+    <Card className={cn("border-border", isSelected && "ring-2 ring-primary")}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-start gap-3 text-lg">
+          <span>{kind.icon}</span>
+          <div className="min-w-0">
+            <p>{point.name}</p>
+            <p className="text-sm font-normal text-muted-foreground">{point.address}</p>
+          </div>
+          {distance !== null && (
+            <Badge variant="outline" className="ml-auto flex-shrink-0">{formatDistance(distance)}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <Badge className={kind.badge}>{kind.label}</Badge>
+          {point.accepts.map(id => (
+            <Badge key={id} variant="secondary">{getMaterialPath(id)?.material.name ?? id}</Badge>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            {point.hours}
+          </span>
+          {point.phone && (
+            <a href={`tel:${point.phone}`} className="flex items-center gap-1 hover:text-foreground">
+              <Phone className="w-4 h-4" />
+              {point.phone}
+            </a>
+          )}
+          {point.website && (
+            <a href={point.website} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+              Website <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+        {point.notes && <p className="text-sm">{point.notes}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Locator;
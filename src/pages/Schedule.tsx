@@ -0,0 +1,239 @@
+import { useCallback, useMemo, useState } from "react";
+import { addDays, addMonths, format, isToday, isTomorrow, startOfMonth } from "date-fns";
+import type { DayContentProps } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, CalendarDays, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useRegionProfile } from "@/hooks/use-region-profile";
+import { cn } from "@/lib/utils";
+import { downloadBlob } from "@/lib/zip";
+import { getBinColor } from "@/lib/categoryDisplay";
+import { getRegionProfile, REGION_PROFILES } from "@/services/regionProfiles";
+import {
+  describeRule,
+  getCollectionDays,
+  getScheduleSettings,
+  getSelectedArea,
+  REMINDER_HOUR,
+  setScheduleSettings,
+  toICalendar,
+  type CollectionDay
+} from "@/services/collectionSchedule";
+
+const UPCOMING_DAYS = 14;
+// A month plus the days of neighbouring months the calendar shows
+const CALENDAR_SPAN_DAYS = 45;
+
+const formatDay = (date: Date) =>
+  isToday(date) ? "Today" : isTomorrow(date) ? "Tomorrow" : format(date, "EEEE d MMMM");
+
+const Schedule = () => {
+  const [profile, selectProfile] = useRegionProfile();
+  const { toast } = useToast();
+  const [area, setArea] = useState(() => getSelectedArea(profile));
+  const [reminders, setReminders] = useState(() => getScheduleSettings().reminders);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const upcoming = useMemo(
+    () => area ? getCollectionDays(profile, area, new Date(), UPCOMING_DAYS) : [],
+    [profile, area]
+  );
+
+  // Collections of the shown month, keyed by day for the calendar
+  const monthDays = useMemo(() => {
+    const days = area ? getCollectionDays(profile, area, addDays(month, -7), CALENDAR_SPAN_DAYS) : [];
+    return new Map(days.map(day => [format(day.date, "yyyy-MM-dd"), day]));
+  }, [profile, area, month]);
+
+  const changeRegion = (id: string) => {
+    selectProfile(id);
+    setScheduleSettings({ areaId: null });
+    setArea(getRegionProfile(id).areas[0] ?? null);
+  };
+
+  const changeArea = (id: string) => {
+    setScheduleSettings({ areaId: id });
+    setArea(profile.areas.find(option => option.id === id) ?? null);
+  };
+
+  const toggleReminders = async (enabled: boolean) => {
+    if (enabled) {
+      if (!("Notification" in window)) {
+        toast({ title: "Reminders unavailable", description: "This browser does not support notifications.", variant: "destructive" });
+        return;
+      }
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        toast({ title: "Notifications blocked", description: "Allow notifications for this site to get reminders.", variant: "destructive" });
+        return;
+      }
+    }
+    setScheduleSettings({ reminders: enabled });
+    setReminders(enabled);
+  };
+
+  const exportCalendar = () => {
+    if (!area) return;
+    const calendar = toICalendar(profile, area);
+    downloadBlob(new Blob([calendar], { type: "text/calendar" }), `${profile.id}-${area.id}-collections.ics`);
+  };
+
+  // Day numbers with a colored dot for every bin collected that day
+  const DayContent = useCallback(({ date }: DayContentProps) => {
+    const day: CollectionDay | undefined = monthDays.get(format(date, "yyyy-MM-dd"));
+
+    return (
+      <div className="flex flex-col items-center">
+        <span>{date.getDate()}</span>
+        {day && (
+          <span className="flex gap-0.5 mt-0.5">
+            {day.bins.map(bin => (
+              <span key={bin.id} className={cn("w-1.5 h-1.5 rounded-full", getBinColor(bin.color).swatch)} />
+            ))}
+          </span>
+        )}
+      </div>
+    );
+  }, [monthDays]);
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-foreground mb-4">
+            Collection Schedule
+          </h1>
+          <p className="text-xl text-muted-foreground max-w-3xl mx-auto">
+            See when each bin is collected in your area and get a reminder the evening before.
+          </p>
+        </div>
+
+        {/* Area */}
+        <Card className="mb-8 border-border">
+          <CardContent className="p-6 space-y-4">
+            <div className="grid sm:grid-cols-2 gap-3">
+              <Select value={profile.id} onValueChange={changeRegion}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose your city" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REGION_PROFILES.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={area?.id ?? ""} onValueChange={changeArea} disabled={profile.areas.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No areas for this region" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profile.areas.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Switch id="collection-reminders" checked={reminders} onCheckedChange={toggleReminders} disabled={!area} />
+                <Label htmlFor="collection-reminders" className="flex items-center gap-2">
+                  <Bell className="w-4 h-4" />
+                  Remind me at {REMINDER_HOUR}:00 the evening before
+                </Label>
+              </div>
+              <Button variant="outline" onClick={exportCalendar} disabled={!area}>
+                <Download className="w-4 h-4 mr-2" />
+                Add to Calendar (.ics)
+              </Button>
+            </div>
+            {reminders && (
+              <p className="text-xs text-muted-foreground">
+                Reminders are shown while the app is open in a browser tab. Add the schedule to your calendar app to be reminded at any time.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {!area ? (
+          <p className="text-muted-foreground text-center py-12">
+            There are no collection schedules for {profile.name} yet. Check your council's website for your bin days.
+          </p>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-8">
+            <Card className="border-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="w-5 h-5" />
+                  {area.name}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex justify-center">
+                  <Calendar
+                    month={month}
+                    onMonthChange={setMonth}
+                    fromMonth={startOfMonth(new Date())}
+                    toMonth={addMonths(new Date(), 12)}
+                    components={{ DayContent }}
+                    className="rounded-md border border-border"
+                  />
+                </div>
+                <ul className="space-y-2">
+                  {area.collections.map(collection => {
+                    const bin = profile.bins.find(candidate => candidate.id === collection.bin);
+                    if (!bin) return null;
+
+                    return (
+                      <li key={bin.id} className="flex items-center gap-3 text-sm">
+                        <span className={cn("w-3 h-3 rounded-full flex-shrink-0", getBinColor(bin.color).swatch)} />
+                        <span className="font-medium">{bin.name}</span>
+                        <span className="ml-auto text-muted-foreground">{describeRule(collection.rule)}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border">
+              <CardHeader>
+                <CardTitle>Next {UPCOMING_DAYS} Days</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {upcoming.length > 0 ? (
+                  <ul className="space-y-4">
+                    {upcoming.map(day => (
+                      <li key={day.date.toISOString()}>
+                        <p className={cn("font-semibold mb-1", isTomorrow(day.date) && "text-primary")}>
+                          {formatDay(day.date)}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {day.bins.map(bin => (
+                            <Badge key={bin.id} className={getBinColor(bin.color).badge}>
+                              {bin.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground">No collections in the next {UPCOMING_DAYS} days.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Schedule;
@@ -1,46 +1,66 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, Droplets, ChevronDown, ChevronUp } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, ExternalLink, MapPin } from "lucide-react";
+import ItemSearch from "@/components/ItemSearch";
+import ItemDetailSheet from "@/components/ItemDetailSheet";
 import { cn } from "@/lib/utils";
+import { MATERIAL_PATHS } from "@/data/wasteTaxonomy";
+import { ITEM_CATALOGUE, type CatalogueItem } from "@/data/itemCatalogue";
+import { getBinColor, getCategoryColor } from "@/lib/categoryDisplay";
+import { useRegionProfile } from "@/hooks/use-region-profile";
+import { REGION_PROFILES, resolveBin } from "@/services/regionProfiles";
+
+// Items listed per bin before "Show all"
+const COLLAPSED_ITEM_COUNT = 12;
 
 const SegregationGuide = () => {
-  const [showDryWaste, setShowDryWaste] = useState(true);
-  const [showWetWaste, setShowWetWaste] = useState(true);
+  const [profile, selectProfile] = useRegionProfile();
+  const [hiddenBins, setHiddenBins] = useState<Set<string>>(new Set());
+  const [selectedItem, setSelectedItem] = useState<CatalogueItem | null>(null);
+  const [expandedBins, setExpandedBins] = useState<Set<string>>(new Set());
 
-  const dryWasteItems = [
-    { name: "Plastic Bottles", category: "Recyclable", color: "blue" },
-    { name: "Paper & Cardboard", category: "Recyclable", color: "blue" },
-    { name: "Metal Cans", category: "Recyclable", color: "blue" },
-    { name: "Glass Containers", category: "Recyclable", color: "blue" },
-    { name: "Electronics", category: "E-Waste", color: "purple" },
-    { name: "Batteries", category: "Hazardous", color: "red" },
-    { name: "Fabric & Textiles", category: "Recyclable", color: "blue" },
-    { name: "Rubber Items", category: "Special", color: "orange" },
-  ];
+  // Every material from the taxonomy, sorted into the region's bins
+  const binMaterials = useMemo(() => {
+    const byBin = new Map(profile.bins.map(bin => [bin.id, [] as typeof MATERIAL_PATHS]));
+    MATERIAL_PATHS.forEach(path => {
+      const bin = resolveBin(profile, {
+        category: path.category.id,
+        subcategory: path.subcategory.id,
+        material: path.material.id
+      });
+      if (bin) byBin.get(bin.id)?.push(path);
+    });
+    return byBin;
+  }, [profile]);
 
-  const wetWasteItems = [
-    { name: "Fruit Peels", category: "Compostable", color: "green" },
-    { name: "Vegetable Scraps", category: "Compostable", color: "green" },
-    { name: "Food Leftovers", category: "Compostable", color: "green" },
-    { name: "Coffee Grounds", category: "Compostable", color: "green" },
-    { name: "Tea Bags", category: "Compostable", color: "green" },
-    { name: "Eggshells", category: "Compostable", color: "green" },
-    { name: "Garden Waste", category: "Compostable", color: "green" },
-    { name: "Dairy Products", category: "Organic", color: "yellow" },
-  ];
+  // Catalogue items sorted into the region's bins the same way
+  const binItems = useMemo(() => {
+    const byBin = new Map(profile.bins.map(bin => [bin.id, [] as CatalogueItem[]]));
+    ITEM_CATALOGUE.forEach(item => {
+      const bin = resolveBin(profile, {
+        category: item.path.category.id,
+        subcategory: item.path.subcategory.id,
+        material: item.path.material.id
+      });
+      if (bin) byBin.get(bin.id)?.push(item);
+    });
+    return byBin;
+  }, [profile]);
 
-  const getBadgeColor = (color: string) => {
-    switch (color) {
-      case "blue": return "bg-blue-100 text-blue-800 hover:bg-blue-200";
-      case "green": return "bg-green-100 text-green-800 hover:bg-green-200";
-      case "purple": return "bg-purple-100 text-purple-800 hover:bg-purple-200";
-      case "red": return "bg-red-100 text-red-800 hover:bg-red-200";
-      case "orange": return "bg-orange-100 text-orange-800 hover:bg-orange-200";
-      case "yellow": return "bg-yellow-100 text-yellow-800 hover:bg-yellow-200";
-      default: return "bg-gray-100 text-gray-800 hover:bg-gray-200";
-    }
+  const toggleBin = (binId: string) => {
+    setHiddenBins(current => {
+      const next = new Set(current);
+      if (next.has(binId)) {
+        next.delete(binId);
+      } else {
+        next.add(binId);
+      }
+      return next;
+    });
   };
 
   return (
@@ -56,120 +76,137 @@ const SegregationGuide = () => {
           </p>
         </div>
 
+        {/* Item lookup */}
+        <div className="flex justify-center mb-8">
+          <ItemSearch onSelect={setSelectedItem} />
+        </div>
+
+        {/* Region */}
+        <div className="flex flex-col items-center gap-2 mb-8 text-center">
+          <Select value={profile.id} onValueChange={selectProfile}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Choose your city" />
+            </SelectTrigger>
+            <SelectContent>
+              {REGION_PROFILES.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {profile.authority && (
+            <p className="text-sm text-muted-foreground">
+              {profile.authority}
+              {profile.website && (
+                <a href={profile.website} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 ml-2 text-primary hover:underline">
+                  Website <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </p>
+          )}
+          {profile.notes.map(note => (
+            <p key={note} className="text-sm text-muted-foreground max-w-2xl">{note}</p>
+          ))}
+        </div>
+
         {/* Controls */}
-        <div className="flex flex-col sm:flex-row gap-4 justify-center mb-8">
-          <Button
-            onClick={() => setShowDryWaste(!showDryWaste)}
-            variant={showDryWaste ? "default" : "outline"}
-            className="flex items-center gap-2"
-          >
-            <Trash2 className="w-4 h-4" />
-            Dry Waste Examples
-            {showDryWaste ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-          </Button>
-          <Button
-            onClick={() => setShowWetWaste(!showWetWaste)}
-            variant={showWetWaste ? "default" : "outline"}
-            className="flex items-center gap-2"
-          >
-            <Droplets className="w-4 h-4" />
-            Wet Waste Examples
-            {showWetWaste ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-          </Button>
+        <div className="flex flex-wrap gap-4 justify-center mb-8">
+          {profile.bins.map(bin => {
+            const isShown = !hiddenBins.has(bin.id);
+
+            return (
+              <Button
+                key={bin.id}
+                onClick={() => toggleBin(bin.id)}
+                variant={isShown ? "default" : "outline"}
+                className="flex items-center gap-2"
+              >
+                <span className={cn("w-3 h-3 rounded-sm", getBinColor(bin.color).swatch)} />
+                {bin.name}
+                {isShown ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            );
+          })}
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8">
-          {/* Dry Waste Section */}
-          <Card className={cn(
-            "transition-all duration-500 border-border",
-            showDryWaste ? "opacity-100 transform-none" : "opacity-50 transform scale-95"
-          )}>
-            <CardHeader className="bg-gradient-to-r from-blue-50 to-blue-100 rounded-t-lg">
-              <CardTitle className="flex items-center gap-3 text-2xl">
-                <div className="w-10 h-10 rounded-full bg-blue-500 flex items-center justify-center">
-                  <Trash2 className="w-5 h-5 text-white" />
-                </div>
-                Dry Waste
-              </CardTitle>
-              <p className="text-muted-foreground">
-                Non-biodegradable waste that can be recycled or requires special disposal
-              </p>
-            </CardHeader>
-            <CardContent className="p-6">
-              {showDryWaste && (
-                <div className="space-y-4 animate-in slide-in-from-top-4 duration-300">
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    {dryWasteItems.map((item, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between p-3 rounded-lg border border-border hover:bg-muted/50 transition-colors"
-                      >
-                        <span className="font-medium text-foreground">{item.name}</span>
-                        <Badge className={getBadgeColor(item.color)}>
-                          {item.category}
-                        </Badge>
-                      </div>
-                    ))}
-                  </div>
-                  <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-                    <h4 className="font-semibold text-blue-900 mb-2">Disposal Tips:</h4>
-                    <ul className="text-sm text-blue-800 space-y-1">
-                      <li>• Clean containers before recycling</li>
-                      <li>• Remove labels when possible</li>
-                      <li>• Separate different materials</li>
-                      <li>• Take e-waste to special collection centers</li>
-                    </ul>
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          {profile.bins.map(bin => {
+            const isShown = !hiddenBins.has(bin.id);
+            const materials = binMaterials.get(bin.id) ?? [];
+            const items = binItems.get(bin.id) ?? [];
+            const isExpanded = expandedBins.has(bin.id);
 
-          {/* Wet Waste Section */}
-          <Card className={cn(
-            "transition-all duration-500 border-border",
-            showWetWaste ? "opacity-100 transform-none" : "opacity-50 transform scale-95"
-          )}>
-            <CardHeader className="bg-gradient-to-r from-green-50 to-green-100 rounded-t-lg">
-              <CardTitle className="flex items-center gap-3 text-2xl">
-                <div className="w-10 h-10 rounded-full bg-green-500 flex items-center justify-center">
-                  <Droplets className="w-5 h-5 text-white" />
-                </div>
-                Wet Waste
-              </CardTitle>
-              <p className="text-muted-foreground">
-                Biodegradable organic waste that can be composted
-              </p>
-            </CardHeader>
-            <CardContent className="p-6">
-              {showWetWaste && (
-                <div className="space-y-4 animate-in slide-in-from-top-4 duration-300">
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    {wetWasteItems.map((item, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between p-3 rounded-lg border border-border hover:bg-muted/50 transition-colors"
-                      >
-                        <span className="font-medium text-foreground">{item.name}</span>
-                        <Badge className={getBadgeColor(item.color)}>
-                          {item.category}
-                        </Badge>
+            return (
+              <Card
+                key={bin.id}
+                className={cn(
+                  "transition-all duration-500 border-border",
+                  isShown ? "opacity-100 transform-none" : "opacity-50 transform scale-95"
+                )}
+              >
+                <CardHeader className="bg-muted/40 rounded-t-lg">
+                  <CardTitle className="flex items-center gap-3 text-2xl">
+                    <div className={cn("w-10 h-10 rounded-full flex-shrink-0", getBinColor(bin.color).swatch)} />
+                    {bin.name}
+                    {bin.dropOff && (
+                      <Badge className={cn("ml-auto", getBinColor(bin.color).badge)}>
+                        <MapPin className="w-3 h-3 mr-1" />
+                        Drop-off
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  <p className="text-muted-foreground">
+                    {bin.description}
+                  </p>
+                  {bin.collection && (
+                    <p className="text-sm text-muted-foreground">{bin.collection}</p>
+                  )}
+                </CardHeader>
+                <CardContent className="p-6">
+                  {isShown && (
+                    <div className="space-y-4 animate-in slide-in-from-top-4 duration-300">
+                      <div className="flex flex-wrap gap-2">
+                        {materials.map(({ category, material }) => (
+                          <Badge key={material.id} className={getCategoryColor(category.id)} title={category.name}>
+                            {material.name}
+                          </Badge>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                  <div className="mt-6 p-4 bg-green-50 rounded-lg">
-                    <h4 className="font-semibold text-green-900 mb-2">Composting Tips:</h4>
-                    <ul className="text-sm text-green-800 space-y-1">
-                      <li>• Start a home compost bin</li>
-                      <li>• Mix green and brown materials</li>
-                      <li>• Turn compost regularly for aeration</li>
-                      <li>• Avoid meat and dairy in compost</li>
-                    </ul>
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                      {items.length > 0 && (
+                        <div>
+                          <h4 className="font-semibold mb-2">Common Items:</h4>
+                          <div className="flex flex-wrap gap-x-3 gap-y-1 text-sm">
+                            {(isExpanded ? items : items.slice(0, COLLAPSED_ITEM_COUNT)).map(item => (
+                              <Link key={item.id} to={`/guide/${item.id}`} className="text-primary hover:underline">
+                                {item.name}
+                              </Link>
+                            ))}
+                          </div>
+                          {!isExpanded && items.length > COLLAPSED_ITEM_COUNT && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0"
+                              onClick={() => setExpandedBins(current => new Set(current).add(bin.id))}
+                            >
+                              Show all {items.length} items
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      <div className="p-4 bg-muted/50 rounded-lg">
+                        <h4 className="font-semibold mb-2">Disposal Tips:</h4>
+                        <ul className="text-sm text-muted-foreground space-y-1">
+                          {bin.instructions.map(tip => (
+                            <li key={tip}>• {tip}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         {/* Best Practices */}
@@ -210,6 +247,8 @@ const SegregationGuide = () => {
           </CardContent>
         </Card>
       </div>
+
+      <ItemDetailSheet item={selectedItem} profile={profile} onClose={() => setSelectedItem(null)} />
     </div>
   );
 };
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Cpu, Download, Gauge, MapPin } from "lucide-react";
+import { useRegionProfile } from "@/hooks/use-region-profile";
+import { useInstallPrompt, useOnlineStatus } from "@/hooks/use-pwa";
+import { useQueuedAnalysisCount } from "@/hooks/use-sync-queue";
+import { REGION_PROFILES } from "@/services/regionProfiles";
+import {
+  CLASSIFIER_METADATA,
+  wasteDetectionService,
+  type ClassifierId,
+  type ClassifierSettings
+} from "@/services/wasteDetection";
+
+const CLASSIFIERS = Object.values(CLASSIFIER_METADATA);
+
+const Settings = () => {
+  const [settings, setSettings] = useState<ClassifierSettings>(() => wasteDetectionService.getClassifierSettings());
+  const [threshold, setThreshold] = useState(() => wasteDetectionService.getUncertaintyThreshold());
+  const [regionProfile, selectRegionProfile] = useRegionProfile();
+  const hasCustomHead = wasteDetectionService.getCustomHeadInfo() !== null;
+  const installPrompt = useInstallPrompt();
+  const isOnline = useOnlineStatus();
+  const { data: queuedCount = 0 } = useQueuedAnalysisCount();
+
+  const updateSettings = (changes: Partial<ClassifierSettings>) => {
+    wasteDetectionService.setClassifierSettings(changes);
+    setSettings(current => ({ ...current, ...changes }));
+  };
+
+  const updateThreshold = ([value]: number[]) => {
+    wasteDetectionService.setUncertaintyThreshold(value);
+    setThreshold(value);
+  };
+
+  const usesServer = settings.backend === "server" || settings.backend === "ensemble";
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-4xl mx-auto px-4">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-4">
+            Settings
+          </h1>
+          <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
+            Choose how your photos are classified. Settings are saved on this device.
+          </p>
+        </div>
+
+        {/* Region */}
+        <Card className="mb-6 border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="w-5 h-5" />
+              Region
+            </CardTitle>
+            <CardDescription>
+              Bin names, colors and collection rules differ between cities. Results and the guide follow the rules you pick.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Select value={regionProfile.id} onValueChange={selectRegionProfile}>
+              <SelectTrigger className="w-full sm:w-72">
+                <SelectValue placeholder="Choose your city" />
+              </SelectTrigger>
+              <SelectContent>
+                {REGION_PROFILES.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {regionProfile.authority && (
+              <p className="text-xs text-muted-foreground">{regionProfile.authority}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Classifier backend */}
+        <Card className="mb-6 border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="w-5 h-5" />
+              Classifier
+            </CardTitle>
+            <CardDescription>
+              If the chosen classifier is unsure, the color heuristic is tried before asking you to sort the item.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <RadioGroup
+              value={settings.backend}
+              onValueChange={value => updateSettings({ backend: value as ClassifierId })}
+            >
+              {CLASSIFIERS.map(classifier => {
+                const isDisabled = classifier.id === "custom" && !hasCustomHead;
+
+                return (
+                  <div key={classifier.id} className="flex items-start gap-3 p-3 rounded-lg bg-muted/30">
+                    <RadioGroupItem
+                      value={classifier.id}
+                      id={`classifier-${classifier.id}`}
+                      disabled={isDisabled}
+                      className="mt-1"
+                    />
+                    <Label htmlFor={`classifier-${classifier.id}`} className="space-y-1 font-normal">
+                      <span className="block font-medium">{classifier.name}</span>
+                      <span className="block text-sm text-muted-foreground">
+                        {isDisabled
+                          ? "Train it from your corrections on the History page first."
+                          : classifier.description}
+                      </span>
+                    </Label>
+                  </div>
+                );
+              })}
+            </RadioGroup>
+
+            {usesServer && (
+              <div className="space-y-2">
+                <Label htmlFor="server-url">Server URL</Label>
+                <Input
+                  id="server-url"
+                  type="url"
+                  placeholder="http://192.168.1.20:8000/classify"
+                  value={settings.serverUrl}
+                  onChange={event => updateSettings({ serverUrl: event.target.value.trim() })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  The photo is sent as a JPEG in a POST request. The server replies with a result like{" "}
+                  <code>{`{"category": "dry", "confidence": 0.8, "probabilities": {"wet": 0.1, "dry": 0.8, "hazardous": 0.1}}`}</code>.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Uncertainty threshold */}
+        <Card className="mb-6 border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="w-5 h-5" />
+              Confidence Threshold
+            </CardTitle>
+            <CardDescription>
+              Results less confident than this are marked as uncertain and you are asked to sort them yourself.
+              Confidence scores are estimates, they have not been checked against labelled photos.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Minimum confidence</span>
+              <span className="font-medium">{Math.round(threshold * 100)}%</span>
+            </div>
+            <Slider
+              value={[threshold]}
+              min={0}
+              max={0.95}
+              step={0.05}
+              onValueChange={updateThreshold}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Offline use */}
+        <Card className="mb-6 border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Download className="w-5 h-5" />
+              Offline Use
+            </CardTitle>
+            <CardDescription>
+              The guide, the schedule and the in-browser classifiers keep working without a connection once the app has been opened online.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {installPrompt.isAvailable ? (
+              <Button onClick={() => installPrompt.install()}>
+                <Download className="w-4 h-4 mr-2" />
+                Install App
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                To install, use your browser's "Install app" or "Add to Home Screen" option.
+              </p>
+            )}
+            {queuedCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {queuedCount} {queuedCount === 1 ? "photo was" : "photos were"} analyzed in the browser and will be sent to the inference server
+                {isOnline ? " as soon as it responds." : " when you are back online."}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,101 @@
+import samples from '@/data/calibrationSamples.json';
+import type { WasteType } from '@/data/imagenetWasteMap';
+
+export type ResultSource = "model" | "heuristic";
+
+export type CategoryScores = Record<WasteType, number>;
+
+// A labelled reference image, stored as the raw per-category scores the model
+// or the color heuristic produced for it. The bundled set is synthetic, see
+// scripts/generate-calibration-samples.mjs.
+export interface CalibrationSample {
+  source: ResultSource;
+  label: WasteType;
+  scores: CategoryScores;
+}
+
+export const WASTE_TYPES: WasteType[] = ['organic', 'recyclable', 'electronic', 'general'];
+
+// Keeps log() finite for categories that received no score at all
+const EPSILON = 1e-4;
+
+// Search range for the temperature, in log space
+const MIN_LOG_TEMPERATURE = Math.log(0.05);
+const MAX_LOG_TEMPERATURE = Math.log(20);
+
+// Temperature-scaled softmax over the log of the raw scores. A temperature
+// above 1 softens over-confident scores, below 1 sharpens timid ones.
+// unknownMass is score that went to none of the categories, such as MobileNet
+// labels unrelated to waste. It competes in the softmax but is left out of
+// the result, so the probabilities then add up to less than 1.
+export const applyTemperature = (scores: CategoryScores, temperature: number, unknownMass?: number): CategoryScores => {
+  const raw = WASTE_TYPES.map(type => scores[type]);
+  if (unknownMass !== undefined) raw.push(unknownMass);
+  const logits = raw.map(score => Math.log(Math.max(score, 0) + EPSILON) / temperature);
+  const maxLogit = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - maxLogit));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+
+  return Object.fromEntries(
+    WASTE_TYPES.map((type, index) => [type, exps[index] / total])
+  ) as CategoryScores;
+};
+
+// Model scores are shares of MobileNet's probability mass over all ImageNet
+// labels, the rest went to labels that say nothing about waste. The color
+// heuristic's scores are unbounded evidence with no such remainder.
+const getUnknownMass = (scores: CategoryScores, source: ResultSource): number | undefined =>
+  source === 'model'
+    ? Math.max(0, 1 - WASTE_TYPES.reduce((sum, type) => sum + scores[type], 0))
+    : undefined;
+
+// Mean negative log-likelihood of the true labels at a given temperature
+const negativeLogLikelihood = (data: CalibrationSample[], temperature: number): number => {
+  const total = data.reduce((sum, sample) => {
+    const probabilities = applyTemperature(sample.scores, temperature, getUnknownMass(sample.scores, sample.source));
+    return sum - Math.log(probabilities[sample.label] + EPSILON);
+  }, 0);
+
+  return total / data.length;
+};
+
+// Fit the temperature that minimises the NLL with a golden-section search.
+// The NLL is unimodal in log(temperature), so this converges reliably.
+export const fitTemperature = (data: CalibrationSample[]): number => {
+  if (data.length === 0) return 1;
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = MIN_LOG_TEMPERATURE;
+  let high = MAX_LOG_TEMPERATURE;
+
+  for (let i = 0; i < 60; i++) {
+    const left = high - ratio * (high - low);
+    const right = low + ratio * (high - low);
+
+    if (negativeLogLikelihood(data, Math.exp(left)) < negativeLogLikelihood(data, Math.exp(right))) {
+      high = right;
+    } else {
+      low = left;
+    }
+  }
+
+  return Math.exp((low + high) / 2);
+};
+
+const referenceSamples = samples as CalibrationSample[];
+
+// Fitted once on the bundled reference set, separately for each source since
+// the model and the color heuristic are miscalibrated in different ways
+export const TEMPERATURES: Record<ResultSource, number> = {
+  model: fitTemperature(referenceSamples.filter(sample => sample.source === 'model')),
+  heuristic: fitTemperature(referenceSamples.filter(sample => sample.source === 'heuristic'))
+};
+
+// Turn raw category scores into temperature-scaled per-category scores
+export const calibrateScores = (scores: CategoryScores, source: ResultSource): CategoryScores =>
+  applyTemperature(scores, TEMPERATURES[source], getUnknownMass(scores, source));
+
+// The most probable category and its probability
+export const getTopCategory = (probabilities: CategoryScores): [WasteType, number] =>
+  (Object.entries(probabilities) as [WasteType, number][])
+    .sort(([, a], [, b]) => b - a)[0];
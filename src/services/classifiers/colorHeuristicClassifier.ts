@@ -0,0 +1,111 @@
+import { calibrateScores, getTopCategory, WASTE_TYPES, type CategoryScores } from '../calibration';
+import { WASTE_CATEGORIES, type WasteDetectionResult } from '../wasteCategories';
+import { CLASSIFIER_METADATA } from './metadata';
+import type { WasteClassifier } from './types';
+
+// Evidence the color heuristic gives "general" when nothing else stands out
+const HEURISTIC_GENERAL_PRIOR = 0.5;
+
+// Size the image is sampled at for the color heuristic
+const HEURISTIC_SAMPLE_SIZE = 150;
+
+// Draw the image onto a small canvas and read its pixels back. Uses an
+// OffscreenCanvas where available so this also works inside a Web Worker.
+const readPixels = (image: ImageBitmap, size: number): Uint8ClampedArray | null => {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(size, size)
+    : Object.assign(document.createElement('canvas'), { width: size, height: size });
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+
+  if (!ctx) return null;
+
+  ctx.drawImage(image, 0, 0, size, size);
+  return ctx.getImageData(0, 0, size, size).data;
+};
+
+// Guesses the waste type from the colours in the photo. Needs no model, so
+// it is also the fallback when the other classifiers are unsure.
+export class ColorHeuristicClassifier implements WasteClassifier {
+  readonly metadata = CLASSIFIER_METADATA.heuristic;
+
+  async load(): Promise<void> {}
+
+  async classify(image: ImageBitmap): Promise<WasteDetectionResult> {
+    // Enhanced color and texture analysis for better organic waste detection
+    const pixels = readPixels(image, HEURISTIC_SAMPLE_SIZE);
+    
+    if (!pixels) {
+      // Without a canvas there is no evidence at all, so every type is equally likely
+      const probabilities = calibrateScores(
+        Object.fromEntries(WASTE_TYPES.map(type => [type, 0])) as CategoryScores,
+        'heuristic'
+      );
+      return {
+        ...WASTE_CATEGORIES.general,
+        confidence: Math.max(...Object.values(probabilities)),
+        probabilities,
+        source: 'heuristic',
+        predictions: []
+      };
+    }
+    
+    let yellowSum = 0, brownSum = 0, greenSum = 0, metalSum = 0, blackSum = 0;
+    let totalBrightness = 0;
+    
+    for (let i = 0; i < pixels.length; i += 4) {
+      const r = pixels[i];
+      const g = pixels[i + 1];
+      const b = pixels[i + 2];
+      
+      totalBrightness += (r + g + b) / 3;
+      
+      // Enhanced color detection for organic materials
+      // Yellow/brown colors typical of banana peels, fruit skins
+      if (r > 150 && g > 100 && b < 100) yellowSum++;
+      if (r > 80 && g > 60 && b < 80 && Math.abs(r - g) < 50) brownSum++;
+      
+      // Green colors for vegetables, leaves
+      if (g > r && g > b && g > 80) greenSum++;
+      
+      // Metallic/shiny surfaces for cans, electronics
+      if (r > 180 && g > 180 && b > 180) metalSum++;
+      
+      // Dark colors that might indicate electronic components
+      if (r < 50 && g < 50 && b < 50) blackSum++;
+    }
+    
+    const total = pixels.length / 4;
+    const yellowRatio = yellowSum / total;
+    const brownRatio = brownSum / total;
+    const greenRatio = greenSum / total;
+    const metalRatio = metalSum / total;
+    const blackRatio = blackSum / total;
+    const avgBrightness = totalBrightness / total;
+    
+    // Raw evidence per waste type, scaled so 1 matches the color thresholds
+    // that used to decide the category outright
+    const scores: CategoryScores = {
+      organic: Math.max(yellowRatio / 0.15, brownRatio / 0.2, greenRatio / 0.25),
+      recyclable: (metalRatio / 0.3) * (avgBrightness > 120 ? 1 : 0.5),
+      electronic: (blackRatio / 0.4) * (avgBrightness < 80 ? 1 : 0.5),
+      general: HEURISTIC_GENERAL_PRIOR
+    };
+
+    const probabilities = calibrateScores(scores, 'heuristic');
+    const [wasteType, confidence] = getTopCategory(probabilities);
+    const categoryInfo = WASTE_CATEGORIES[wasteType];
+    
+    return {
+      category: categoryInfo.category,
+      confidence,
+      probabilities,
+      source: 'heuristic',
+      items: wasteType === 'organic' ? ['Organic waste', 'Food scraps'] : categoryInfo.items.slice(0, 2),
+      predictions: [],
+      recommendations: categoryInfo.recommendations
+    };
+  }
+
+  // Holds no model
+  dispose(): void {}
+}
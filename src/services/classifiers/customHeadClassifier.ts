@@ -0,0 +1,36 @@
+import type { CustomWasteHead } from '../customHead';
+import type { WasteDetectionResult } from '../wasteCategories';
+import { CLASSIFIER_METADATA } from './metadata';
+import type { MobileNetBackbone } from './mobileNetBackbone';
+import { createBinResult } from './results';
+import type { WasteClassifier } from './types';
+
+// Runs the head the user trained on their corrections over MobileNet embeddings
+export class CustomHeadClassifier implements WasteClassifier {
+  readonly metadata = CLASSIFIER_METADATA.custom;
+
+  constructor(private backbone: MobileNetBackbone, private head: CustomWasteHead) {}
+
+  async load(): Promise<void> {
+    await Promise.all([this.backbone.load(), this.head.load()]);
+  }
+
+  async classify(image: ImageBitmap): Promise<WasteDetectionResult | null> {
+    // Nothing trained yet
+    if (!(await this.head.load())) return null;
+
+    const embedding = this.backbone.embed(image);
+    if (!embedding) return null;
+
+    try {
+      return createBinResult(await this.head.predict(embedding), 'custom');
+    } finally {
+      embedding.dispose();
+    }
+  }
+
+  // The head is saved, it is read back from IndexedDB if needed again
+  dispose(): void {
+    this.head.unload();
+  }
+}
@@ -0,0 +1,73 @@
+import type { WasteDetectionResult } from '../wasteCategories';
+import { CLASSIFIER_METADATA, type ClassifierId } from './metadata';
+import { BINS, createBinResult, toBinProbabilities, type BinProbabilities } from './results';
+import type { ClassifierContext, ClassifyOptions, WasteClassifier } from './types';
+
+// How much say each member has. The color heuristic is rough so it counts
+// for less, models trained on local data count for more.
+const MEMBER_WEIGHTS: Partial<Record<ClassifierId, number>> = {
+  mobilenet: 1,
+  heuristic: 0.5,
+  custom: 1.5,
+  server: 1.5
+};
+
+// Weighted average of the bin probabilities of every classifier that has an
+// opinion on the image
+export class EnsembleClassifier implements WasteClassifier {
+  readonly metadata = CLASSIFIER_METADATA.ensemble;
+
+  constructor(private getClassifier: ClassifierContext['getClassifier']) {}
+
+  private get members(): WasteClassifier[] {
+    return (Object.keys(MEMBER_WEIGHTS) as ClassifierId[]).map(id => this.getClassifier(id));
+  }
+
+  async load(): Promise<void> {
+    // A member failing to load simply sits this one out
+    await Promise.allSettled(this.members.map(member => member.load()));
+  }
+
+  async classify(image: ImageBitmap, { signal }: ClassifyOptions = {}): Promise<WasteDetectionResult | null> {
+    const results: WasteDetectionResult[] = [];
+    const combined: BinProbabilities = { wet: 0, dry: 0, hazardous: 0 };
+    let totalWeight = 0;
+
+    // One at a time, the members compete for the same GPU
+    for (const member of this.members) {
+      signal?.throwIfAborted();
+
+      let result: WasteDetectionResult | null;
+      try {
+        result = await member.classify(image, { signal });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn(`${member.metadata.name} failed, leaving it out of the ensemble:`, error);
+        continue;
+      }
+      if (!result) continue;
+
+      const weight = MEMBER_WEIGHTS[member.metadata.id] ?? 1;
+      const bins = toBinProbabilities(result.probabilities);
+      BINS.forEach(bin => {
+        combined[bin] += bins[bin] * weight;
+      });
+      totalWeight += weight;
+      results.push(result);
+    }
+
+    if (totalWeight === 0) return null;
+
+    BINS.forEach(bin => {
+      combined[bin] /= totalWeight;
+    });
+
+    return createBinResult(combined, 'ensemble', {
+      items: [...new Set(results.flatMap(result => result.items))].slice(0, 3),
+      predictions: results.find(result => result.predictions.length > 0)?.predictions ?? []
+    });
+  }
+
+  // The members belong to the engine and are disposed by it
+  dispose(): void {}
+}
@@ -0,0 +1,18 @@
+import { ColorHeuristicClassifier } from './colorHeuristicClassifier';
+import { CustomHeadClassifier } from './customHeadClassifier';
+import { EnsembleClassifier } from './ensembleClassifier';
+import { MobileNetClassifier } from './mobileNetClassifier';
+import { registerClassifier } from './registry';
+import { ServerClassifier } from './serverClassifier';
+
+// The built-in backends. Other classifiers can be added with registerClassifier.
+registerClassifier('mobilenet', ({ backbone }) => new MobileNetClassifier(backbone));
+registerClassifier('heuristic', () => new ColorHeuristicClassifier());
+registerClassifier('custom', ({ backbone, customHead }) => new CustomHeadClassifier(backbone, customHead));
+registerClassifier('server', ({ settings }) => new ServerClassifier(settings));
+registerClassifier('ensemble', ({ getClassifier }) => new EnsembleClassifier(getClassifier));
+
+export { createClassifier, getClassifierFactory, registerClassifier, getRegisteredClassifiers } from './registry';
+export { MobileNetBackbone } from './mobileNetBackbone';
+export type { ClassifierContext, ClassifierFactory, ClassifyOptions, WasteClassifier } from './types';
+export * from './metadata';
@@ -0,0 +1,48 @@
+// Descriptions of the available classifier backends. Kept free of
+// TensorFlow.js so the settings page can list them without loading it.
+
+export type ClassifierId = 'mobilenet' | 'heuristic' | 'custom' | 'server' | 'ensemble';
+
+export interface ClassifierMetadata {
+  id: ClassifierId;
+  name: string;
+  description: string;
+}
+
+export const CLASSIFIER_METADATA: Record<ClassifierId, ClassifierMetadata> = {
+  mobilenet: {
+    id: 'mobilenet',
+    name: 'MobileNet',
+    description: 'Recognises the object with an ImageNet model and maps its label to a bin.'
+  },
+  heuristic: {
+    id: 'heuristic',
+    name: 'Color heuristic',
+    description: 'Guesses from the colours in the photo. Fast and always available, but rough.'
+  },
+  custom: {
+    id: 'custom',
+    name: 'Personal model',
+    description: 'The classifier you trained on your own corrections.'
+  },
+  server: {
+    id: 'server',
+    name: 'Inference server',
+    description: 'Sends the photo to a REST endpoint running a stronger model. Falls back to MobileNet when the server cannot be reached.'
+  },
+  ensemble: {
+    id: 'ensemble',
+    name: 'Ensemble',
+    description: 'Combines the scores of every available classifier.'
+  }
+};
+
+// Used when nothing else has been selected
+export const DEFAULT_CLASSIFIER: ClassifierId = 'mobilenet';
+
+// Settings the main thread sends with every detection
+export interface ClassifierSettings {
+  backend: ClassifierId;
+  // REST endpoint of the inference server backend
+  serverUrl: string;
+}
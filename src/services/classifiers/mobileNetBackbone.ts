@@ -0,0 +1,109 @@
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-webgl';
+import { loadCachedLayersModel, MODEL_CONFIG } from '../modelLoader';
+
+// MobileNet layer whose pooled activations serve as image embeddings
+const EMBEDDING_LAYER = 'conv_pw_13_relu';
+
+// The MobileNet model shared by the ImageNet mapper and the custom head, so
+// it is only downloaded and held in memory once
+export class MobileNetBackbone {
+  private model: tf.LayersModel | null = null;
+  private loadingModel: Promise<void> | null = null;
+  private embeddingModel: tf.LayersModel | null = null;
+
+  // Whether MobileNet loaded, otherwise only the color heuristic is usable
+  get isAvailable(): boolean {
+    return this.model !== null;
+  }
+
+  load(): Promise<void> {
+    // Concurrent requests share a single load
+    this.loadingModel ??= this.initializeModel();
+    return this.loadingModel;
+  }
+
+  private async initializeModel(): Promise<void> {
+    try {
+      // Initialize TensorFlow backend
+      await tf.ready();
+      console.log('TensorFlow.js backend initialized');
+
+      // MobileNet is served from our own assets and cached in IndexedDB
+      this.model = await loadCachedLayersModel(MODEL_CONFIG);
+      console.log('Model loaded successfully');
+    } catch (error) {
+      console.error('Error loading model:', error);
+      
+      // Fallback: detection continues with the color heuristic only
+      console.log('Using fallback color heuristic');
+      this.model = null;
+    }
+  }
+
+  private preprocessImage(image: ImageBitmap): tf.Tensor {
+    // Convert image to tensor and preprocess for MobileNet
+    return tf.tidy(() => {
+      // Convert to tensor
+      const tensor = tf.browser.fromPixels(image);
+      
+      // Resize to 224x224 (MobileNet input size)
+      const resized = tf.image.resizeBilinear(tensor, [224, 224]);
+      
+      // Normalize to [0, 1] range for MobileNetV1
+      const normalized = resized.div(255.0);
+      
+      // Add batch dimension
+      return normalized.expandDims(0);
+    });
+  }
+
+  // ImageNet class probabilities, or null if the model is unavailable
+  async predict(image: ImageBitmap): Promise<Float32Array | null> {
+    if (!this.model) return null;
+
+    // Preprocess image
+    const preprocessed = this.preprocessImage(image);
+    
+    // Run inference
+    const predictions = this.model.predict(preprocessed) as tf.Tensor;
+    
+    // Clean up preprocessing tensor
+    preprocessed.dispose();
+
+    // Read the scores back without blocking on the GPU
+    const data = await predictions.data() as Float32Array;
+    predictions.dispose();
+    return data;
+  }
+
+  // MobileNet cut off before its ImageNet classifier
+  private getEmbeddingModel(): tf.LayersModel | null {
+    if (!this.model) return null;
+
+    this.embeddingModel ??= tf.model({
+      inputs: this.model.inputs,
+      outputs: this.model.getLayer(EMBEDDING_LAYER).output as tf.SymbolicTensor
+    });
+    return this.embeddingModel;
+  }
+
+  // One feature vector per image, averaged over the spatial dimensions, or
+  // null if the model is unavailable. The caller disposes the tensor.
+  embed(image: ImageBitmap): tf.Tensor2D | null {
+    const embeddingModel = this.getEmbeddingModel();
+    if (!embeddingModel) return null;
+
+    return tf.tidy(() => {
+      const activations = embeddingModel.predict(this.preprocessImage(image)) as tf.Tensor4D;
+      return activations.mean([1, 2]) as tf.Tensor2D;
+    });
+  }
+
+  dispose(): void {
+    this.embeddingModel = null;
+    this.model?.dispose();
+    this.model = null;
+    this.loadingModel = null;
+  }
+}
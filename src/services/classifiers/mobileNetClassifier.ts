@@ -0,0 +1,68 @@
+import { IMAGENET_WASTE_MAP, getDisplayLabel } from '@/data/imagenetWasteMap';
+import { calibrateScores, getTopCategory, WASTE_TYPES, type CategoryScores } from '../calibration';
+import { WASTE_CATEGORIES, type WasteDetectionResult, type WastePrediction } from '../wasteCategories';
+import { CLASSIFIER_METADATA } from './metadata';
+import type { MobileNetBackbone } from './mobileNetBackbone';
+import type { WasteClassifier } from './types';
+
+// Number of ImageNet predictions considered when picking a waste type
+const TOP_K = 5;
+
+// Minimum combined probability of waste-related labels before we trust the model
+const MIN_CATEGORY_SCORE = 0.1;
+
+// Recognises the object with MobileNet and maps its ImageNet label to a waste type
+export class MobileNetClassifier implements WasteClassifier {
+  readonly metadata = CLASSIFIER_METADATA.mobilenet;
+
+  constructor(private backbone: MobileNetBackbone) {}
+
+  load(): Promise<void> {
+    return this.backbone.load();
+  }
+
+  async classify(image: ImageBitmap): Promise<WasteDetectionResult | null> {
+    const predictionData = await this.backbone.predict(image);
+    if (!predictionData) return null;
+
+    // Find the top predictions and look up their waste type
+    const topPredictions: WastePrediction[] = Array.from(predictionData)
+      .map((score, index) => ({
+        label: getDisplayLabel(IMAGENET_WASTE_MAP[index].label),
+        score,
+        wasteType: IMAGENET_WASTE_MAP[index].wasteType
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_K);
+
+    // Sum the probability of every class per waste type, ignoring labels that
+    // say nothing about waste (animals, landscapes, vehicles)
+    const scores = Object.fromEntries(WASTE_TYPES.map(type => [type, 0])) as CategoryScores;
+    predictionData.forEach((score, index) => {
+      const { wasteType } = IMAGENET_WASTE_MAP[index];
+      if (wasteType !== 'unknown') scores[wasteType] += score;
+    });
+
+    // Nothing waste-related was recognised
+    if (Math.max(...Object.values(scores)) < MIN_CATEGORY_SCORE) {
+      return null;
+    }
+
+    const probabilities = calibrateScores(scores, 'model');
+    const [wasteType, confidence] = getTopCategory(probabilities);
+    const categoryInfo = WASTE_CATEGORIES[wasteType];
+
+    return {
+      category: categoryInfo.category,
+      confidence,
+      probabilities,
+      source: 'model',
+      items: topPredictions.slice(0, 3).map(prediction => prediction.label),
+      predictions: topPredictions,
+      recommendations: categoryInfo.recommendations
+    };
+  }
+
+  // The backbone is shared with other classifiers, the engine releases it
+  dispose(): void {}
+}
@@ -0,0 +1,21 @@
+import type { ClassifierId } from './metadata';
+import type { ClassifierContext, ClassifierFactory, WasteClassifier } from './types';
+
+const factories = new Map<ClassifierId, ClassifierFactory>();
+
+export const registerClassifier = (id: ClassifierId, factory: ClassifierFactory): void => {
+  factories.set(id, factory);
+};
+
+// The current factory for an id, registering again replaces it
+export const getClassifierFactory = (id: ClassifierId): ClassifierFactory | undefined => factories.get(id);
+
+export const createClassifier = (id: ClassifierId, context: ClassifierContext): WasteClassifier => {
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`No classifier registered for "${id}"`);
+  }
+  return factory(context);
+};
+
+export const getRegisteredClassifiers = (): ClassifierId[] => [...factories.keys()];
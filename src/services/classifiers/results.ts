@@ -0,0 +1,53 @@
+import type { WasteType } from '@/data/imagenetWasteMap';
+import {
+  WASTE_CATEGORIES,
+  getCategoryRecommendations,
+  type DetectionSource,
+  type WasteBin,
+  type WasteDetectionResult
+} from '../wasteCategories';
+
+export type BinProbabilities = Record<WasteBin, number>;
+
+export const BINS: WasteBin[] = ['wet', 'dry', 'hazardous'];
+
+// Probability of each bin, adding up the waste types that share one
+export const toBinProbabilities = (probabilities: WasteDetectionResult['probabilities']): BinProbabilities => {
+  if (!('organic' in probabilities)) {
+    return probabilities;
+  }
+
+  const bins: BinProbabilities = { wet: 0, dry: 0, hazardous: 0 };
+  (Object.entries(probabilities) as [WasteType, number][]).forEach(([wasteType, probability]) => {
+    bins[WASTE_CATEGORIES[wasteType].category] += probability;
+  });
+  return bins;
+};
+
+// Scale scores so they sum to 1, spreading evenly if they are all zero
+export const normalizeBins = (scores: BinProbabilities): BinProbabilities => {
+  const total = BINS.reduce((sum, bin) => sum + Math.max(scores[bin], 0), 0);
+  return Object.fromEntries(
+    BINS.map(bin => [bin, total > 0 ? Math.max(scores[bin], 0) / total : 1 / BINS.length])
+  ) as BinProbabilities;
+};
+
+// A result for classifiers that score bins directly rather than waste types
+export const createBinResult = (
+  probabilities: BinProbabilities,
+  source: DetectionSource,
+  { items = [], predictions = [] }: Partial<Pick<WasteDetectionResult, 'items' | 'predictions'>> = {}
+): WasteDetectionResult => {
+  const [category, confidence] = (Object.entries(probabilities) as [WasteBin, number][])
+    .sort(([, a], [, b]) => b - a)[0];
+
+  return {
+    category,
+    confidence,
+    probabilities,
+    source,
+    items,
+    predictions,
+    recommendations: getCategoryRecommendations(category)
+  };
+};
@@ -0,0 +1,41 @@
+import { encodeJpeg } from '../imagePreprocessing';
+import type { WasteDetectionResult } from '../wasteCategories';
+import { CLASSIFIER_METADATA, type ClassifierSettings } from './metadata';
+import { requestServerClassification } from './serverRequest';
+import type { ClassifyOptions, WasteClassifier } from './types';
+
+// Give up on a server that takes longer than this
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Posts the photo as a JPEG to the inference server. Used as a member of the
+// ensemble; on its own the server is called from the main thread with retries,
+// see wasteDetection.ts.
+export class ServerClassifier implements WasteClassifier {
+  readonly metadata = CLASSIFIER_METADATA.server;
+
+  // Read on every request so a changed URL applies straight away
+  constructor(private settings: ClassifierSettings) {}
+
+  async load(): Promise<void> {}
+
+  async classify(image: ImageBitmap, { signal }: ClassifyOptions = {}): Promise<WasteDetectionResult | null> {
+    const url = this.settings.serverUrl.trim();
+    // No server configured
+    if (!url) return null;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timeout = setTimeout(abort, REQUEST_TIMEOUT_MS);
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      return await requestServerClassification(url, await encodeJpeg(image), controller.signal);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  // Holds nothing between requests
+  dispose(): void {}
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { getMaterialPath } from '@/data/wasteTaxonomy';
+import type { CategoryScores } from '../calibration';
+import { getCategoryRecommendations, markUncertain, type WasteDetectionResult, type WastePrediction } from '../wasteCategories';
+import { normalizeBins, type BinProbabilities } from './results';
+
+// Shared by the server classifier in the worker and the remote mode on the
+// main thread. Free of TensorFlow.js so the main bundle can import it.
+
+const scoreSchema = z.number().min(0).max(1);
+
+// A WasteDetectionResult as the inference server sends it. Probabilities may
+// be per bin or per waste type; source is always set to "server" here.
+export const serverResultSchema = z.object({
+  category: z.enum(['wet', 'dry', 'hazardous', 'sanitary', 'biomedical', 'construction', 'uncertain']),
+  // Taxonomy id of the recognised material, ignored if unknown
+  material: z.string().optional(),
+  confidence: scoreSchema,
+  probabilities: z.union([
+    z.object({ organic: scoreSchema, recyclable: scoreSchema, electronic: scoreSchema, general: scoreSchema }),
+    z.object({ wet: scoreSchema, dry: scoreSchema, hazardous: scoreSchema })
+  ]),
+  items: z.array(z.string()).default([]),
+  predictions: z.array(z.object({
+    label: z.string(),
+    score: scoreSchema,
+    wasteType: z.enum(['organic', 'recyclable', 'electronic', 'general', 'unknown'])
+  })).default([]),
+  recommendations: z.array(z.string()).optional()
+});
+
+export interface ServerResult {
+  category: WasteDetectionResult['category'];
+  material?: string;
+  confidence: number;
+  probabilities: CategoryScores | BinProbabilities;
+  items: string[];
+  predictions: WastePrediction[];
+  recommendations?: string[];
+}
+
+// Thrown for failed requests. Only network failures and server errors are
+// worth retrying, a bad request or an invalid answer will not improve.
+export class ServerRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'ServerRequestError';
+  }
+}
+
+const toResult = (data: ServerResult): WasteDetectionResult => {
+  const { probabilities } = data;
+  const result: WasteDetectionResult = {
+    category: data.category,
+    confidence: data.confidence,
+    probabilities: 'organic' in probabilities ? probabilities : normalizeBins(probabilities),
+    source: 'server',
+    items: data.items,
+    predictions: data.predictions,
+    recommendations: data.recommendations ?? []
+  };
+
+  if (result.category === 'uncertain') {
+    return markUncertain(result);
+  }
+
+  const path = data.material ? getMaterialPath(data.material) : null;
+  if (path) {
+    result.subcategory = path.subcategory.id;
+    result.material = path.material.id;
+  }
+  if (result.recommendations.length === 0) {
+    result.recommendations = getCategoryRecommendations(result.category);
+  }
+  return result;
+};
+
+// POST a JPEG to the inference server and validate what comes back
+export const requestServerClassification = async (
+  url: string,
+  image: Blob,
+  signal?: AbortSignal
+): Promise<WasteDetectionResult> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/jpeg', Accept: 'application/json' },
+      body: image,
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ServerRequestError(`Inference server is unreachable: ${error instanceof Error ? error.message : error}`, true);
+  }
+
+  if (!response.ok) {
+    throw new ServerRequestError(
+      `Inference server responded with ${response.status} ${response.statusText}`,
+      response.status >= 500 || response.status === 429
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ServerRequestError('Inference server did not respond with JSON', false);
+  }
+
+  const parsed = serverResultSchema.safeParse(body);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new ServerRequestError(`Inference server sent an invalid result: ${issue?.path.join('.')} ${issue?.message}`, false);
+  }
+
+  // Validated above, zod only types the fields as optional
+  return toResult(parsed.data as ServerResult);
+};
@@ -0,0 +1,32 @@
+import type { CustomWasteHead } from '../customHead';
+import type { WasteDetectionResult } from '../wasteCategories';
+import type { ClassifierId, ClassifierMetadata, ClassifierSettings } from './metadata';
+import type { MobileNetBackbone } from './mobileNetBackbone';
+
+export interface ClassifyOptions {
+  signal?: AbortSignal;
+}
+
+// A way of turning a photo into a waste category. The engine applies the
+// uncertainty threshold, so classifiers simply report what they found.
+export interface WasteClassifier {
+  readonly metadata: ClassifierMetadata;
+  load(): Promise<void>;
+  // Resolves to null when the classifier has no opinion on this image, e.g.
+  // its model is missing or nothing waste-related was recognised
+  classify(image: ImageBitmap, options?: ClassifyOptions): Promise<WasteDetectionResult | null>;
+  // Called by the engine when the classifier is no longer used. Releases what
+  // the classifier holds itself; the shared backbone is the engine's.
+  dispose(): void;
+}
+
+// Resources shared between classifiers, handed to every factory
+export interface ClassifierContext {
+  backbone: MobileNetBackbone;
+  customHead: CustomWasteHead;
+  // Current settings, updated by the engine before each detection
+  settings: ClassifierSettings;
+  getClassifier: (id: ClassifierId) => WasteClassifier;
+}
+
+export type ClassifierFactory = (context: ClassifierContext) => WasteClassifier;
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import pointData from '@/data/collectionPoints.geo.json';
+import localityData from '@/data/localities.json';
+import { getTaxonomyCategory, type WasteCategory } from '@/data/wasteTaxonomy';
+import { fuzzySearch } from '@/lib/fuzzySearch';
+
+// Drop-off and collection points bundled with the app as GeoJSON, so the
+// locator works without a network connection or a map tile server.
+
+const LAST_LOCATION_KEY = 'collection-locator-location';
+
+export const POINT_KINDS = ['recycling', 'e-waste', 'hazardous', 'pharmacy', 'textiles', 'construction', 'sanitary'] as const;
+
+export type PointKind = typeof POINT_KINDS[number];
+
+const pointFeatureSchema = z.object({
+  type: z.literal('Feature'),
+  geometry: z.object({
+    type: z.literal('Point'),
+    // GeoJSON order: longitude first
+    coordinates: z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)])
+  }),
+  properties: z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    kind: z.enum(POINT_KINDS),
+    // Region profile the point belongs to
+    region: z.string(),
+    address: z.string(),
+    // Taxonomy material ids accepted here
+    accepts: z.array(z.string()).min(1),
+    hours: z.string(),
+    phone: z.string().optional(),
+    website: z.string().url().optional(),
+    notes: z.string().optional()
+  })
+});
+
+const featureCollectionSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(z.unknown())
+});
+
+const localitySchema = z.object({
+  name: z.string(),
+  region: z.string(),
+  lat: z.number(),
+  lon: z.number()
+});
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface CollectionPoint extends GeoPoint {
+  id: string;
+  name: string;
+  kind: PointKind;
+  region: string;
+  address: string;
+  accepts: string[];
+  hours: string;
+  phone?: string;
+  website?: string;
+  notes?: string;
+}
+
+// A neighbourhood a typed address can be matched to
+export interface Locality extends GeoPoint {
+  name: string;
+  region: string;
+}
+
+interface PointFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: Omit<CollectionPoint, 'lat' | 'lon'>;
+}
+
+export interface NearbyPoint {
+  point: CollectionPoint;
+  // Kilometres from the origin, null when no origin is known
+  distance: number | null;
+}
+
+const loadCollectionPoints = (): CollectionPoint[] => {
+  const collection = featureCollectionSchema.safeParse(pointData);
+  if (!collection.success) {
+    console.warn('Invalid collection point data:', collection.error.issues[0]?.message);
+    return [];
+  }
+
+  return collection.data.features.flatMap((feature, index) => {
+    const parsed = pointFeatureSchema.safeParse(feature);
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues;
+      console.warn(`Skipping collection point ${index}: ${issue?.path.join('.')}: ${issue?.message}`);
+      return [];
+    }
+
+    // Validated above, zod only types the fields as optional
+    const { geometry, properties } = parsed.data as PointFeature;
+    const [lon, lat] = geometry.coordinates;
+    return [{ ...properties, lat, lon }];
+  });
+};
+
+export const COLLECTION_POINTS = loadCollectionPoints();
+
+export const LOCALITIES = z.array(localitySchema).parse(localityData) as Locality[];
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance in kilometres
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export interface PointFilter {
+  material?: string;
+  // Any material of the category, when the exact material is not known
+  category?: WasteCategory;
+  region?: string;
+}
+
+const categoryMaterials = (category: WasteCategory): string[] =>
+  getTaxonomyCategory(category).subcategories.flatMap(subcategory => subcategory.materials.map(material => material.id));
+
+const acceptsFilter = (point: CollectionPoint, { material, category }: PointFilter): boolean => {
+  if (material) return point.accepts.includes(material);
+  if (category) return categoryMaterials(category).some(id => point.accepts.includes(id));
+  return true;
+};
+
+// Points accepting the material, nearest first when the origin is known and
+// alphabetical otherwise
+export const findCollectionPoints = (origin: GeoPoint | null, filter: PointFilter = {}): NearbyPoint[] =>
+  COLLECTION_POINTS
+    .filter(point => acceptsFilter(point, filter))
+    .filter(point => !filter.region || point.region === filter.region)
+    .map(point => ({ point, distance: origin ? distanceKm(origin, point) : null }))
+    .sort((a, b) => a.distance !== null && b.distance !== null
+      ? a.distance - b.distance
+      : a.point.name.localeCompare(b.point.name));
+
+// Material ids accepted by at least one point
+export const getAcceptedMaterials = (): string[] =>
+  [...new Set(COLLECTION_POINTS.flatMap(point => point.accepts))];
+
+// A typed address resolved to the closest-named bundled locality. There is no
+// geocoding service, so only neighbourhoods in the bundled list are found.
+export const findLocality = (address: string): Locality | null => {
+  // Try each part of "12 Main Road, Koramangala, Bengaluru" on its own too
+  const parts = [address, ...address.split(',')].map(part => part.trim()).filter(Boolean);
+  for (const part of parts) {
+    const [match] = fuzzySearch(LOCALITIES, part, locality => [locality.name], 1);
+    if (match) return match.item;
+  }
+  return null;
+};
+
+export const getCurrentLocation = (): Promise<GeoPoint> =>
+  new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('Location is not available in this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+      error => reject(new Error(error.code === error.PERMISSION_DENIED ? 'Location permission was denied' : 'Unable to find your location')),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+
+// The last location used in the locator, so results elsewhere can show the
+// nearest points without asking for permission again
+export const getLastLocation = (): GeoPoint | null => {
+  try {
+    const saved = localStorage.getItem(LAST_LOCATION_KEY);
+    const parsed = saved ? z.object({ lat: z.number(), lon: z.number() }).safeParse(JSON.parse(saved)) : null;
+    return parsed?.success ? parsed.data as GeoPoint : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setLastLocation = (location: GeoPoint): void => {
+  try {
+    localStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(location));
+  } catch (error) {
+    console.warn('Unable to save location:', error);
+  }
+};
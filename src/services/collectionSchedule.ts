@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { addDays, differenceInCalendarWeeks, format, getDaysInMonth, parseISO, startOfDay } from 'date-fns';
+import type { RegionBin, RegionProfile } from './regionProfiles';
+
+// Kerbside collection days. Region profiles list the areas of a city and a
+// recurrence rule for each bin collected there; this module expands the
+// rules into dates, describes them and exports them as iCalendar.
+
+const SCHEDULE_SETTINGS_KEY = 'collection-schedule';
+const LAST_REMINDER_KEY = 'collection-schedule-last-reminder';
+export const SCHEDULE_CHANGE_EVENT = 'collection-schedule-change';
+
+// Reminders go out at this hour on the evening before a collection
+export const REMINDER_HOUR = 19;
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date like 2026-01-01');
+
+export const recurrenceRuleSchema = z.discriminatedUnion('frequency', [
+  z.object({
+    frequency: z.literal('daily'),
+    except: z.array(z.enum(WEEKDAYS)).default([])
+  }),
+  z.object({
+    frequency: z.literal('weekly'),
+    weekdays: z.array(z.enum(WEEKDAYS)).min(1),
+    // Every n weeks, counted from the week of `start`
+    interval: z.number().int().min(1).default(1),
+    start: isoDate.optional()
+  }),
+  z.object({
+    frequency: z.literal('monthly'),
+    weekday: z.enum(WEEKDAYS),
+    // 1 for the first of the month up to 4, -1 for the last
+    week: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(-1)])
+  })
+]).refine(
+  rule => rule.frequency !== 'weekly' || rule.interval === 1 || Boolean(rule.start),
+  'Rules repeating every few weeks need a start date'
+);
+
+export type RecurrenceRule =
+  | { frequency: 'daily'; except: Weekday[] }
+  | { frequency: 'weekly'; weekdays: Weekday[]; interval: number; start?: string }
+  | { frequency: 'monthly'; weekday: Weekday; week: 1 | 2 | 3 | 4 | -1 };
+
+export interface ScheduledCollection {
+  bin: string;
+  rule: RecurrenceRule;
+}
+
+export interface CollectionArea {
+  id: string;
+  name: string;
+  collections: ScheduledCollection[];
+}
+
+export interface CollectionDay {
+  date: Date;
+  bins: RegionBin[];
+}
+
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[date.getDay()];
+
+export const occursOn = (rule: RecurrenceRule, date: Date): boolean => {
+  const weekday = weekdayOf(date);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return !rule.except.includes(weekday);
+    case 'weekly': {
+      if (!rule.weekdays.includes(weekday)) return false;
+      if (rule.interval === 1 || !rule.start) return true;
+      const weeks = differenceInCalendarWeeks(date, parseISO(rule.start), { weekStartsOn: 1 });
+      return ((weeks % rule.interval) + rule.interval) % rule.interval === 0;
+    }
+    case 'monthly': {
+      if (weekday !== rule.weekday) return false;
+      return rule.week === -1
+        ? date.getDate() + 7 > getDaysInMonth(date)
+        : Math.ceil(date.getDate() / 7) === rule.week;
+    }
+  }
+};
+
+// Collection days in the area for the given number of days from `from`
+export const getCollectionDays = (profile: RegionProfile, area: CollectionArea, from: Date, days: number): CollectionDay[] => {
+  const start = startOfDay(from);
+
+  return Array.from({ length: days }, (_, offset) => addDays(start, offset)).flatMap(date => {
+    const bins = area.collections
+      .filter(collection => occursOn(collection.rule, date))
+      .flatMap(collection => profile.bins.filter(bin => bin.id === collection.bin));
+    return bins.length > 0 ? [{ date, bins }] : [];
+  });
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const listWeekdays = (weekdays: Weekday[]) => {
+  const names = weekdays.map(capitalize);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+};
+
+const ORDINALS: Record<number, string> = { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', [-1]: 'Last' };
+
+// "Every other Thursday", "First Saturday of the month"
+export const describeRule = (rule: RecurrenceRule): string => {
+  switch (rule.frequency) {
+    case 'daily':
+      return rule.except.length > 0 ? `Every day except ${listWeekdays(rule.except)}` : 'Every day';
+    case 'weekly':
+      if (rule.interval === 1) return `Every ${listWeekdays(rule.weekdays)}`;
+      if (rule.interval === 2) return `Every other ${listWeekdays(rule.weekdays)}`;
+      return `Every ${rule.interval} weeks on ${listWeekdays(rule.weekdays)}`;
+    case 'monthly':
+      return `${ORDINALS[rule.week]} ${capitalize(rule.weekday)} of the month`;
+  }
+};
+
+const ICAL_DAYS: Record<Weekday, string> = {
+  sunday: 'SU', monday: 'MO', tuesday: 'TU', wednesday: 'WE', thursday: 'TH', friday: 'FR', saturday: 'SA'
+};
+
+const toRRule = (rule: RecurrenceRule): string => {
+  switch (rule.frequency) {
+    case 'daily':
+      return rule.except.length > 0
+        ? `FREQ=WEEKLY;BYDAY=${WEEKDAYS.filter(day => !rule.except.includes(day)).map(day => ICAL_DAYS[day]).join(',')}`
+        : 'FREQ=DAILY';
+    case 'weekly':
+      return `FREQ=WEEKLY;INTERVAL=${rule.interval};BYDAY=${rule.weekdays.map(day => ICAL_DAYS[day]).join(',')}`;
+    case 'monthly':
+      return `FREQ=MONTHLY;BYDAY=${rule.week}${ICAL_DAYS[rule.weekday]}`;
+  }
+};
+
+const escapeText = (text: string) => text.replace(/[\\;,]/g, match => `\\${match}`).replace(/\n/g, '\\n');
+
+// Content lines longer than 75 octets of UTF-8 are folded onto continuation
+// lines. Iterating the string yields whole code points, so a fold never
+// splits a character.
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    const size = utf8Length(char);
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Days searched for the first collection of a rule, enough for a monthly one
+const FIRST_OCCURRENCE_SEARCH_DAYS = 62;
+
+// The area's collections as recurring all-day events with a reminder the
+// evening before
+export const toICalendar = (profile: RegionProfile, area: CollectionArea, now = new Date()): string => {
+  const stamp = `${now.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+  const today = startOfDay(now);
+
+  const events = area.collections.flatMap(collection => {
+    const bin = profile.bins.find(candidate => candidate.id === collection.bin);
+    const first = Array.from({ length: FIRST_OCCURRENCE_SEARCH_DAYS }, (_, offset) => addDays(today, offset))
+      .find(date => occursOn(collection.rule, date));
+    if (!bin || !first) return [];
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${profile.id}-${area.id}-${bin.id}@clean-bin`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${format(first, 'yyyyMMdd')}`,
+      `RRULE:${toRRule(collection.rule)}`,
+      `SUMMARY:${escapeText(`${bin.name} collection`)}`,
+      `DESCRIPTION:${escapeText([describeRule(collection.rule), ...bin.instructions].join('\n'))}`,
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`Put out the ${bin.name.toLowerCase()} tonight`)}`,
+      // All-day events start at midnight, so this is the evening before
+      `TRIGGER:-PT${24 - REMINDER_HOUR}H`,
+      'END:VALARM',
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Clean Bin//Collection schedule//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(`${area.name} bin collections`)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+export interface ScheduleSettings {
+  // Area of the selected region profile, the first area when unset
+  areaId: string | null;
+  reminders: boolean;
+}
+
+export const getScheduleSettings = (): ScheduleSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SCHEDULE_SETTINGS_KEY) ?? '{}') as Partial<ScheduleSettings>;
+    return {
+      areaId: typeof stored.areaId === 'string' ? stored.areaId : null,
+      reminders: stored.reminders === true
+    };
+  } catch {
+    return { areaId: null, reminders: false };
+  }
+};
+
+export const setScheduleSettings = (settings: Partial<ScheduleSettings>): void => {
+  try {
+    localStorage.setItem(SCHEDULE_SETTINGS_KEY, JSON.stringify({ ...getScheduleSettings(), ...settings }));
+  } catch (error) {
+    console.warn('Unable to save collection schedule settings:', error);
+  }
+  // Lets the reminder scheduler pick up the change in this tab
+  window.dispatchEvent(new Event(SCHEDULE_CHANGE_EVENT));
+};
+
+export const getSelectedArea = (profile: RegionProfile): CollectionArea | null => {
+  const { areaId } = getScheduleSettings();
+  return profile.areas.find(area => area.id === areaId) ?? profile.areas[0] ?? null;
+};
+
+export interface Reminder {
+  // When to show it, the evening before the collection
+  at: Date;
+  day: CollectionDay;
+}
+
+const dateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// The next collection that has not been reminded about yet
+export const getNextReminder = (profile: RegionProfile, area: CollectionArea, now = new Date()): Reminder | null => {
+  let lastReminded: string | null = null;
+  try {
+    lastReminded = localStorage.getItem(LAST_REMINDER_KEY);
+  } catch {
+    // Without storage a reminder may repeat after a reload
+  }
+
+  const day = getCollectionDays(profile, area, addDays(now, 1), FIRST_OCCURRENCE_SEARCH_DAYS)
+    .find(candidate => !lastReminded || dateKey(candidate.date) > lastReminded);
+  if (!day) return null;
+
+  const at = addDays(day.date, -1);
+  at.setHours(REMINDER_HOUR, 0, 0, 0);
+  return { at, day };
+};
+
+export const markReminderSent = (day: CollectionDay): void => {
+  try {
+    localStorage.setItem(LAST_REMINDER_KEY, dateKey(day.date));
+  } catch (error) {
+    console.warn('Unable to save reminder state:', error);
+  }
+};
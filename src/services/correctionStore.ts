@@ -0,0 +1,73 @@
+import { STORES, withStore } from './localDatabase';
+import { WASTE_CATEGORY_IDS } from '@/data/wasteTaxonomy';
+import { createZip } from '@/lib/zip';
+import type { ImageCrop } from './imagePreprocessing';
+import type { WasteCategory, WasteDetectionResult } from './wasteCategories';
+
+// A result the user marked as wrong, kept with its image so it can be used
+// to retrain the model
+export interface Correction {
+  id: string;
+  createdAt: number;
+  historyEntryId: string | null;
+  fileName: string;
+  image: Blob;
+  crop: ImageCrop;
+  category: WasteCategory;
+  itemName: string;
+  // What the detector said, to see which mistakes are most common
+  predicted: Pick<WasteDetectionResult, 'category' | 'confidence' | 'source'> & { topLabel: string | null };
+}
+
+export type NewCorrection = Omit<Correction, 'id' | 'createdAt'>;
+
+// Corrections needed before a custom classifier can be trained, fewer than
+// this cannot teach it anything useful
+export const MIN_TRAINING_EXAMPLES = 6;
+
+// Newest first
+export const listCorrections = async (): Promise<Correction[]> => {
+  const corrections = await withStore(STORES.corrections, 'readonly', store => store.index('createdAt').getAll());
+  return (corrections as Correction[]).reverse();
+};
+
+export const addCorrection = async (correction: NewCorrection): Promise<Correction> => {
+  const saved: Correction = {
+    ...correction,
+    id: crypto.randomUUID(),
+    createdAt: Date.now()
+  };
+  await withStore(STORES.corrections, 'readwrite', store => store.add(saved));
+  return saved;
+};
+
+export const clearCorrections = (): Promise<undefined> =>
+  withStore(STORES.corrections, 'readwrite', store => store.clear());
+
+const getExtension = (image: Blob) => image.type.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+
+// Bundle every correction into a zip with one folder of images per category
+// and a manifest.json describing each image
+export const exportCorrectionsDataset = async (corrections: Correction[]): Promise<Blob> => {
+  const items = corrections.map(correction => ({
+    file: `images/${correction.category}/${correction.id}.${getExtension(correction.image)}`,
+    category: correction.category,
+    itemName: correction.itemName,
+    crop: correction.crop,
+    predicted: correction.predicted,
+    originalFileName: correction.fileName,
+    createdAt: new Date(correction.createdAt).toISOString()
+  }));
+
+  const manifest = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    categories: WASTE_CATEGORY_IDS,
+    items
+  };
+
+  return createZip([
+    { path: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    ...corrections.map((correction, index) => ({ path: items[index].file, data: correction.image }))
+  ]);
+};
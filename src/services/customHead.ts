@@ -0,0 +1,145 @@
+import * as tf from '@tensorflow/tfjs';
+import type { WasteBin } from './wasteCategories';
+
+// Where the trained head is kept in the browser
+const HEAD_MODEL_KEY = 'indexeddb://waste-custom-head';
+
+// Bins the head predicts, in output order
+export const HEAD_CATEGORIES: WasteBin[] = ['wet', 'dry', 'hazardous'];
+
+const EPOCHS = 40;
+const BATCH_SIZE = 16;
+const LEARNING_RATE = 0.005;
+const HIDDEN_UNITS = 32;
+
+export interface CustomHeadInfo {
+  trainedAt: number;
+  examples: number;
+  // Accuracy on the training examples after the last epoch
+  accuracy: number;
+}
+
+export interface TrainingProgress {
+  epoch: number;
+  epochs: number;
+  loss: number;
+  accuracy: number;
+}
+
+export interface TrainHeadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: TrainingProgress) => void;
+}
+
+// Small dense classifier trained in the browser on MobileNet embeddings of the
+// user's corrected photos. Maps straight to a bin instead of going through
+// the ImageNet label table.
+export class CustomWasteHead {
+  private model: tf.LayersModel | null = null;
+  private loadingModel: Promise<tf.LayersModel | null> | null = null;
+
+  // Load the previously trained head, resolving to null if there is none
+  load(): Promise<tf.LayersModel | null> {
+    this.loadingModel ??= tf.io.listModels()
+      .then(models => (HEAD_MODEL_KEY in models ? tf.loadLayersModel(HEAD_MODEL_KEY) : null))
+      .then(model => {
+        this.model = model;
+        return model;
+      })
+      .catch(error => {
+        console.warn('Unable to load the custom classifier:', error);
+        this.loadingModel = null;
+        return null;
+      });
+    return this.loadingModel;
+  }
+
+  private createModel(embeddingSize: number): tf.LayersModel {
+    const model = tf.sequential({
+      layers: [
+        tf.layers.dense({ inputShape: [embeddingSize], units: HIDDEN_UNITS, activation: 'relu' }),
+        tf.layers.dropout({ rate: 0.2 }),
+        tf.layers.dense({ units: HEAD_CATEGORIES.length, activation: 'softmax' })
+      ]
+    });
+
+    model.compile({
+      optimizer: tf.train.adam(LEARNING_RATE),
+      loss: 'categoricalCrossentropy',
+      metrics: ['accuracy']
+    });
+
+    return model;
+  }
+
+  // Train a fresh head on one embedding per example and save it. Replaces any
+  // previously trained head only once training has finished.
+  async train(embeddings: tf.Tensor2D, labels: WasteBin[], { signal, onProgress }: TrainHeadOptions = {}): Promise<CustomHeadInfo> {
+    const model = this.createModel(embeddings.shape[1]);
+    const targets = tf.tidy(() =>
+      tf.oneHot(tf.tensor1d(labels.map(label => HEAD_CATEGORIES.indexOf(label)), 'int32'), HEAD_CATEGORIES.length)
+    );
+
+    let accuracy = 0;
+    try {
+      await model.fit(embeddings, targets, {
+        epochs: EPOCHS,
+        batchSize: Math.min(BATCH_SIZE, labels.length),
+        shuffle: true,
+        callbacks: {
+          onEpochEnd: async (epoch, logs) => {
+            accuracy = logs?.acc ?? logs?.accuracy ?? 0;
+            onProgress?.({ epoch: epoch + 1, epochs: EPOCHS, loss: logs?.loss ?? 0, accuracy });
+            if (signal?.aborted) model.stopTraining = true;
+          }
+        }
+      });
+    } finally {
+      targets.dispose();
+    }
+
+    if (signal?.aborted) {
+      model.dispose();
+      signal.throwIfAborted();
+    }
+
+    const info: CustomHeadInfo = { trainedAt: Date.now(), examples: labels.length, accuracy };
+    await model.save(HEAD_MODEL_KEY);
+
+    this.model?.dispose();
+    this.model = model;
+    this.loadingModel = Promise.resolve(model);
+    return info;
+  }
+
+  // Probability of each bin for a single embedding
+  async predict(embedding: tf.Tensor2D): Promise<Record<WasteBin, number>> {
+    const model = this.model ?? await this.load();
+    if (!model) throw new Error('No custom classifier has been trained yet');
+
+    const output = model.predict(embedding) as tf.Tensor;
+    const scores = await output.data();
+    output.dispose();
+
+    return Object.fromEntries(HEAD_CATEGORIES.map((category, index) => [category, scores[index]])) as Record<WasteBin, number>;
+  }
+
+  // Free the head's memory. It stays saved and is read back on next use.
+  unload(): void {
+    this.model?.dispose();
+    this.model = null;
+    this.loadingModel = null;
+  }
+
+  // Forget the trained head so results come from the ImageNet mapping again
+  async reset(): Promise<void> {
+    this.model?.dispose();
+    this.model = null;
+    this.loadingModel = null;
+
+    const models = await tf.io.listModels();
+    if (HEAD_MODEL_KEY in models) {
+      await tf.io.removeModel(HEAD_MODEL_KEY);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import * as tf from '@tensorflow/tfjs';
+import { getCategoryBin } from '@/data/wasteTaxonomy';
+import { WasteObjectDetector } from './objectDetector';
+import { CustomWasteHead, type CustomHeadInfo, type TrainHeadOptions } from './customHead';
+import { listCorrections, MIN_TRAINING_EXAMPLES } from './correctionStore';
+import { prepareImage } from './imagePreprocessing';
+import {
+  createClassifier,
+  DEFAULT_CLASSIFIER,
+  getClassifierFactory,
+  MobileNetBackbone,
+  type ClassifierContext,
+  type ClassifierFactory,
+  type ClassifierId,
+  type ClassifierSettings,
+  type WasteClassifier
+} from './classifiers';
+import { markUncertain, refineObjectWithTaxonomy, refineWithTaxonomy, type DetectedObject, type WasteDetectionResult } from './wasteCategories';
+
+export interface DetectOptions {
+  // Results below this confidence are reported as "uncertain"
+  uncertaintyThreshold: number;
+  signal?: AbortSignal;
+  // Which classifier to use, defaults to MobileNet
+  classifier?: ClassifierSettings;
+}
+
+// Backends that run on the MobileNet backbone. The ensemble uses both.
+const BACKBONE_BACKENDS: ClassifierId[] = ['mobilenet', 'custom', 'ensemble'];
+
+interface CachedClassifier {
+  classifier: WasteClassifier;
+  // The factory it was made with, to notice when it is registered again
+  factory: ClassifierFactory | undefined;
+}
+
+// Runs the registered classifiers and the object detector. Lives inside the
+// detection worker, or on the main thread where workers are unavailable.
+export class WasteDetectionEngine {
+  private backbone = new MobileNetBackbone();
+  private customHead = new CustomWasteHead();
+  private objectDetector = new WasteObjectDetector();
+  private classifiers = new Map<ClassifierId, CachedClassifier>();
+  private activeBackend: ClassifierId = DEFAULT_CLASSIFIER;
+  private context: ClassifierContext = {
+    backbone: this.backbone,
+    customHead: this.customHead,
+    settings: { backend: DEFAULT_CLASSIFIER, serverUrl: '' },
+    getClassifier: id => this.getClassifier(id)
+  };
+
+  // Whether MobileNet loaded, otherwise only the color heuristic is used
+  get isModelAvailable(): boolean {
+    return this.backbone.isAvailable;
+  }
+
+  loadModel(): Promise<void> {
+    return this.backbone.load();
+  }
+
+  // Classifiers are created on first use and then kept until their backend
+  // is switched away from or another classifier is registered in their place
+  private getClassifier(id: ClassifierId): WasteClassifier {
+    const factory = getClassifierFactory(id);
+    const cached = this.classifiers.get(id);
+    if (cached && cached.factory === factory) return cached.classifier;
+
+    cached?.classifier.dispose();
+    const classifier = createClassifier(id, this.context);
+    this.classifiers.set(id, { classifier, factory });
+    return classifier;
+  }
+
+  // Release the classifiers the new backend does not use. The color heuristic
+  // is kept as every backend's fallback, the ensemble keeps everything.
+  private switchBackend(backend: ClassifierId): void {
+    if (backend === this.activeBackend) return;
+    this.activeBackend = backend;
+    if (backend === 'ensemble') return;
+
+    this.classifiers.forEach(({ classifier }, id) => {
+      if (id === backend || id === 'heuristic') return;
+      classifier.dispose();
+      this.classifiers.delete(id);
+    });
+
+    // Loaded again if a later backend or training needs it
+    if (!BACKBONE_BACKENDS.includes(backend)) {
+      this.backbone.dispose();
+    }
+  }
+
+  // Run one classifier, treating a failure like having no opinion
+  private async tryClassify(classifier: WasteClassifier, image: ImageBitmap, signal?: AbortSignal): Promise<WasteDetectionResult | null> {
+    try {
+      await classifier.load();
+      signal?.throwIfAborted();
+      return await classifier.classify(image, { signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      console.error(`Error during waste detection with ${classifier.metadata.name}:`, error);
+      return null;
+    }
+  }
+
+  // Use these classifier settings from now on
+  configure(classifier: ClassifierSettings): void {
+    Object.assign(this.context.settings, classifier);
+    this.switchBackend(classifier.backend);
+  }
+
+  async detect(image: ImageBitmap, { uncertaintyThreshold, signal, classifier }: DetectOptions): Promise<WasteDetectionResult> {
+    if (classifier) {
+      this.configure(classifier);
+    }
+    const { backend } = this.context.settings;
+
+    const result = await this.tryClassify(this.getClassifier(backend), image, signal);
+    signal?.throwIfAborted();
+    if (result && result.confidence >= uncertaintyThreshold) {
+      return refineWithTaxonomy(result);
+    }
+
+    // The chosen classifier is unsure or has no opinion, see whether the color
+    // heuristic does better before giving up
+    const heuristicResult = backend === 'heuristic'
+      ? result
+      : await this.tryClassify(this.getClassifier('heuristic'), image, signal);
+    if (heuristicResult && heuristicResult.confidence >= uncertaintyThreshold) {
+      return refineWithTaxonomy(heuristicResult);
+    }
+
+    // Keep the first classifier's predictions so the user can still see them
+    const best = result ?? heuristicResult;
+    if (!best) {
+      throw new Error('No classifier could analyze this image');
+    }
+    return markUncertain(best);
+  }
+
+  // Train the custom head on every correction the user has saved
+  async trainCustomHead({ signal, onProgress }: TrainHeadOptions = {}): Promise<CustomHeadInfo> {
+    await this.backbone.load();
+    if (!this.backbone.isAvailable) {
+      throw new Error('The MobileNet model is needed to train a custom classifier, but it could not be loaded.');
+    }
+
+    // The head scores bins, so e.g. sanitary corrections teach it "dry"
+    const corrections = await listCorrections();
+    const labels = corrections.map(correction => getCategoryBin(correction.category));
+    if (corrections.length < MIN_TRAINING_EXAMPLES) {
+      throw new Error(`At least ${MIN_TRAINING_EXAMPLES} corrections are needed to train, you have ${corrections.length}.`);
+    }
+    if (new Set(labels).size < 2) {
+      throw new Error('Corrections need to cover at least two different bins.');
+    }
+
+    const embeddings: tf.Tensor2D[] = [];
+    try {
+      for (const correction of corrections) {
+        signal?.throwIfAborted();
+
+        // Embed the same region that was analyzed when the correction was made
+        const image = await prepareImage(correction.image, { crop: correction.crop });
+        try {
+          const embedding = this.backbone.embed(image);
+          if (!embedding) throw new Error('MobileNet is no longer available');
+          embeddings.push(embedding);
+        } finally {
+          image.close();
+        }
+      }
+
+      const stacked = tf.concat(embeddings);
+      try {
+        return await this.customHead.train(stacked, labels, { signal, onProgress });
+      } finally {
+        stacked.dispose();
+      }
+    } finally {
+      embeddings.forEach(embedding => embedding.dispose());
+    }
+  }
+
+  resetCustomHead(): Promise<void> {
+    return this.customHead.reset();
+  }
+
+  // Locate individual items in the image, each with its own category
+  async detectObjects(image: ImageBitmap, signal?: AbortSignal): Promise<DetectedObject[]> {
+    await tf.ready();
+    const objects = await this.objectDetector.detect(image, { signal });
+    return objects.map(refineObjectWithTaxonomy);
+  }
+}
@@ -0,0 +1,63 @@
+import { STORES, updateRecord, withStore } from './localDatabase';
+import type { ImageCrop } from './imagePreprocessing';
+import type { WasteCategory, WasteDetectionResult } from './wasteCategories';
+
+// A category the user chose instead of (or to settle) the detected one
+export interface HistoryCorrection {
+  category: WasteCategory;
+  // What the item actually was, when the user told us
+  itemName?: string;
+  correctedAt: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  fileName: string;
+  // Small JPEG data URL, the full image is not kept
+  thumbnail: string;
+  result: WasteDetectionResult;
+  crop: ImageCrop;
+  correction: HistoryCorrection | null;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'correction'>;
+
+// The bin the item ended up in, taking the user's correction into account
+export const getEntryCategory = (entry: HistoryEntry): WasteDetectionResult['category'] =>
+  entry.correction?.category ?? entry.result.category;
+
+// Newest first
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore(STORES.history, 'readonly', store => store.index('createdAt').getAll());
+  return (entries as HistoryEntry[]).reverse();
+};
+
+export const addHistoryEntry = async (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+  const saved: HistoryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    correction: null
+  };
+  await withStore(STORES.history, 'readwrite', store => store.add(saved));
+  return saved;
+};
+
+export const setHistoryCorrection = async (id: string, category: WasteCategory, itemName?: string): Promise<void> => {
+  await updateRecord<HistoryEntry>(STORES.history, id, entry => ({
+    ...entry,
+    correction: { category, itemName, correctedAt: Date.now() }
+  }));
+};
+
+// Swap in a newer result for the same photo, keeping any correction
+export const setHistoryResult = async (id: string, result: WasteDetectionResult): Promise<void> => {
+  await updateRecord<HistoryEntry>(STORES.history, id, entry => ({ ...entry, result }));
+};
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> =>
+  withStore(STORES.history, 'readwrite', store => store.delete(id));
+
+export const clearHistory = (): Promise<undefined> =>
+  withStore(STORES.history, 'readwrite', store => store.clear());
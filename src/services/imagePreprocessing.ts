@@ -0,0 +1,187 @@
+// Turns uploaded photos into images the detector can use: decoded with their
+// EXIF orientation applied, downscaled and optionally cropped
+
+// Longest side images are reduced to. Far above the 224px MobileNet input,
+// so object detection and the preview still have detail to work with.
+export const MAX_IMAGE_DIMENSION = 1024;
+
+// Quality used when re-encoding downscaled or converted uploads
+const ENCODE_QUALITY = 0.9;
+
+// Formats every browser can show in an <img>, anything else is converted
+const DISPLAYABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// Formats only some browsers decode (HEIC in Safari, AVIF in most modern ones)
+const PARTIALLY_SUPPORTED_TYPES: Record<string, string> = {
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+  'image/avif': 'AVIF'
+};
+
+// A region of the image, as fractions of its width and height
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Selection offered when the user starts cropping
+export const DEFAULT_CROP_REGION: CropRegion = { x: 0.15, y: 0.15, width: 0.7, height: 0.7 };
+
+// "center" keeps the largest centered square, which is what MobileNet expects
+export type ImageCrop = 'none' | 'center' | CropRegion;
+
+export interface PrepareImageOptions {
+  crop?: ImageCrop;
+  maxDimension?: number;
+}
+
+const describeDecodeFailure = (file: Blob) => {
+  const format = PARTIALLY_SUPPORTED_TYPES[file.type];
+  return format
+    ? `This browser cannot open ${format} images. Please convert the photo to JPEG or PNG.`
+    : 'The image could not be read. It may be damaged or in an unsupported format.';
+};
+
+// Some browsers (Safari with HEIC) decode formats in <img> that
+// createImageBitmap rejects, so try an image element as a fallback
+const decodeWithImageElement = (file: Blob): Promise<ImageBitmap> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      createImageBitmap(img).then(resolve, reject).finally(() => URL.revokeObjectURL(url));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(describeDecodeFailure(file)));
+    };
+    img.src = url;
+  });
+
+// Decode an image with its EXIF orientation applied, so photos taken with a
+// rotated phone reach the detector upright
+export const decodeImage = async (source: ImageBitmapSource): Promise<ImageBitmap> => {
+  if (!(source instanceof Blob)) {
+    return createImageBitmap(source, { imageOrientation: 'from-image' });
+  }
+
+  try {
+    return await createImageBitmap(source, { imageOrientation: 'from-image' });
+  } catch {
+    if (typeof Image === 'undefined') {
+      throw new Error(describeDecodeFailure(source));
+    }
+    return decodeWithImageElement(source);
+  }
+};
+
+// Size that fits within maxDimension while keeping the aspect ratio
+const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+const toPixelRegion = (image: ImageBitmap, crop: Exclude<ImageCrop, 'none'>) => {
+  if (crop === 'center') {
+    const size = Math.min(image.width, image.height);
+    return {
+      x: Math.round((image.width - size) / 2),
+      y: Math.round((image.height - size) / 2),
+      width: size,
+      height: size
+    };
+  }
+
+  const x = Math.round(Math.min(Math.max(crop.x, 0), 1) * image.width);
+  const y = Math.round(Math.min(Math.max(crop.y, 0), 1) * image.height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width * image.width), image.width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height * image.height), image.height - y))
+  };
+};
+
+// Decode, crop and downscale an image ready for detection. The caller owns
+// the returned bitmap and should close it once done.
+export const prepareImage = async (
+  source: ImageBitmapSource,
+  { crop = 'none', maxDimension = MAX_IMAGE_DIMENSION }: PrepareImageOptions = {}
+): Promise<ImageBitmap> => {
+  const decoded = await decodeImage(source);
+  const region = crop === 'none'
+    ? { x: 0, y: 0, width: decoded.width, height: decoded.height }
+    : toPixelRegion(decoded, crop);
+  const size = fitWithin(region.width, region.height, maxDimension);
+
+  try {
+    return await createImageBitmap(decoded, region.x, region.y, region.width, region.height, {
+      resizeWidth: size.width,
+      resizeHeight: size.height,
+      resizeQuality: 'high'
+    });
+  } finally {
+    decoded.close();
+  }
+};
+
+// Encode a bitmap as JPEG, in a worker or on the main thread
+export const encodeJpeg = async (image: ImageBitmap): Promise<Blob> => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return canvas.convertToBlob({ type: 'image/jpeg', quality: ENCODE_QUALITY });
+  }
+
+  const canvas = Object.assign(document.createElement('canvas'), { width: image.width, height: image.height });
+  canvas.getContext('2d')?.drawImage(image, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', ENCODE_QUALITY));
+  if (!blob) throw new Error('Unable to encode the resized image');
+  return blob;
+};
+
+// Shrink large uploads and convert formats like HEIC to JPEG so they can be
+// previewed, stored and re-analyzed cheaply. Small, displayable images are
+// returned untouched.
+export const normalizeImageFile = async (file: File, maxDimension = MAX_IMAGE_DIMENSION): Promise<File> => {
+  const decoded = await decodeImage(file);
+  let resized: ImageBitmap | null = null;
+
+  try {
+    const fitsAlready = Math.max(decoded.width, decoded.height) <= maxDimension;
+    if (fitsAlready && DISPLAYABLE_TYPES.includes(file.type)) {
+      return file;
+    }
+
+    resized = await prepareImage(decoded, { maxDimension });
+    const blob = await encodeJpeg(resized);
+    const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+    return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+  } finally {
+    decoded.close();
+    resized?.close();
+  }
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Small JPEG data URL of the image, for lists such as the analysis history
+export const createThumbnail = async (source: ImageBitmapSource, crop: ImageCrop = 'none', size = 160): Promise<string> => {
+  const image = await prepareImage(source, { crop, maxDimension: size });
+  try {
+    return await blobToDataUrl(await encodeJpeg(image));
+  } finally {
+    image.close();
+  }
+};
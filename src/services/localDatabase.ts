@@ -0,0 +1,120 @@
+// Thin promise wrapper around the app's IndexedDB database. Stores are
+// created in the upgrade handler, bump DATABASE_VERSION when adding one.
+
+const DATABASE_NAME = 'clean-bin';
+const DATABASE_VERSION = 3;
+
+export const STORES = {
+  history: 'history',
+  corrections: 'corrections',
+  syncQueue: 'syncQueue'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.history)) {
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  }
+
+  if (!db.objectStoreNames.contains(STORES.corrections)) {
+    const corrections = db.createObjectStore(STORES.corrections, { keyPath: 'id' });
+    corrections.createIndex('createdAt', 'createdAt');
+  }
+
+  if (!db.objectStoreNames.contains(STORES.syncQueue)) {
+    const syncQueue = db.createObjectStore(STORES.syncQueue, { keyPath: 'id' });
+    syncQueue.createIndex('createdAt', 'createdAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Local storage is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema, reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  database.catch(() => {
+    database = null;
+  });
+
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Run a single request against a store and resolve once its transaction commits
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = promisify(run(transaction.objectStore(storeName)));
+
+  await whenComplete(transaction);
+
+  return result;
+};
+
+// Read a record and write back the updated copy in one transaction, so a
+// write from elsewhere cannot land in between and be overwritten. Resolves
+// to false if there is no record with that key.
+export const updateRecord = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (record: T) => T
+): Promise<boolean> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+
+  const found = new Promise<boolean>((resolve, reject) => {
+    const request = store.get(key);
+    request.onsuccess = () => {
+      if (request.result === undefined) {
+        resolve(false);
+        return;
+      }
+      // Issued from the success callback so the transaction is still active
+      store.put(update(request.result as T));
+      resolve(true);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  await whenComplete(transaction);
+
+  return found;
+};
@@ -0,0 +1,91 @@
+import * as tf from '@tensorflow/tfjs';
+
+export interface ModelConfig {
+  // Identifies the model in the browser cache
+  name: string;
+  // Where the model.json is served from (the weight shards sit next to it)
+  url: string;
+  // Bump this when the bundled weights change to invalidate the browser cache
+  version: string;
+}
+
+// The models are served from our own public/ assets so they work offline and
+// on air-gapped kiosks. Both values can be overridden at build time.
+export const MODEL_CONFIG: ModelConfig = {
+  name: 'mobilenet',
+  url: import.meta.env.VITE_MODEL_URL || `${import.meta.env.BASE_URL}models/mobilenet/model.json`,
+  version: import.meta.env.VITE_MODEL_VERSION || 'mobilenet_v1_0.25_224-v1'
+};
+
+// COCO-SSD object detector used to find several items in one photo
+export const DETECTOR_CONFIG: ModelConfig = {
+  name: 'coco-ssd',
+  url: import.meta.env.VITE_DETECTOR_URL || `${import.meta.env.BASE_URL}models/coco-ssd/model.json`,
+  version: import.meta.env.VITE_DETECTOR_VERSION || 'ssdlite_mobilenet_v2-v1'
+};
+
+const CACHE_PREFIX = 'indexeddb://waste-model-';
+
+const getCachePrefix = (config: ModelConfig) => `${CACHE_PREFIX}${config.name}-`;
+
+const getCacheKey = (config: ModelConfig) => `${getCachePrefix(config)}${config.version}`;
+
+// Remove cached copies left behind by previous versions of the same model
+const pruneStaleModels = async (config: ModelConfig): Promise<void> => {
+  const cached = await tf.io.listModels();
+  const currentKey = getCacheKey(config);
+
+  await Promise.all(
+    Object.keys(cached)
+      .filter(key => key.startsWith(getCachePrefix(config)) && key !== currentKey)
+      .map(key => tf.io.removeModel(key))
+  );
+};
+
+const isCached = async (cacheKey: string): Promise<boolean> => {
+  try {
+    const cached = await tf.io.listModels();
+    return cacheKey in cached;
+  } catch {
+    // IndexedDB may be unavailable (private browsing, old browsers)
+    return false;
+  }
+};
+
+// Load a model from the IndexedDB cache, downloading it from the configured
+// URL and caching it on first use
+const loadCachedModel = async <T extends tf.LayersModel | tf.GraphModel>(
+  config: ModelConfig,
+  load: (url: string) => Promise<T>
+): Promise<T> => {
+  const cacheKey = getCacheKey(config);
+
+  if (await isCached(cacheKey)) {
+    try {
+      const model = await load(cacheKey);
+      console.log(`Model ${config.name} ${config.version} loaded from browser cache`);
+      return model;
+    } catch (error) {
+      console.warn('Cached model is unreadable, downloading again:', error);
+    }
+  }
+
+  const model = await load(config.url);
+  console.log(`Model ${config.name} ${config.version} downloaded from ${config.url}`);
+
+  try {
+    await model.save(cacheKey);
+    await pruneStaleModels(config);
+  } catch (error) {
+    // Caching is an optimisation only, the model is still usable
+    console.warn('Unable to cache model in IndexedDB:', error);
+  }
+
+  return model;
+};
+
+export const loadCachedLayersModel = (config: ModelConfig = MODEL_CONFIG): Promise<tf.LayersModel> =>
+  loadCachedModel(config, url => tf.loadLayersModel(url));
+
+export const loadCachedGraphModel = (config: ModelConfig = DETECTOR_CONFIG): Promise<tf.GraphModel> =>
+  loadCachedModel(config, url => tf.loadGraphModel(url));
@@ -0,0 +1,99 @@
+import * as tf from '@tensorflow/tfjs';
+import { COCO_WASTE_MAP } from '@/data/cocoWasteMap';
+import { loadCachedGraphModel, DETECTOR_CONFIG } from './modelLoader';
+import { WASTE_CATEGORIES, type DetectedObject } from './wasteCategories';
+
+// Maximum number of boxes returned for one image
+const MAX_BOXES = 20;
+
+// Boxes below this score are dropped, and overlapping boxes above this IoU merged
+const MIN_SCORE = 0.4;
+const IOU_THRESHOLD = 0.5;
+
+export interface DetectObjectsOptions {
+  signal?: AbortSignal;
+}
+
+// Finds individual items in a photo with a locally served COCO-SSD model and
+// assigns each of them a waste category
+export class WasteObjectDetector {
+  private model: tf.GraphModel | null = null;
+  private loadingModel: Promise<tf.GraphModel> | null = null;
+
+  private loadModel(): Promise<tf.GraphModel> {
+    this.loadingModel ??= loadCachedGraphModel(DETECTOR_CONFIG)
+      .then(model => {
+        this.model = model;
+        return model;
+      })
+      .catch(error => {
+        // Allow another attempt, e.g. once the weights have been fetched
+        this.loadingModel = null;
+        throw error;
+      });
+    return this.loadingModel;
+  }
+
+  // Highest scoring class for each candidate box
+  private getBestClasses(scores: Float32Array | Int32Array | Uint8Array, numBoxes: number, numClasses: number) {
+    const maxScores = new Float32Array(numBoxes);
+    const classes = new Int32Array(numBoxes);
+
+    for (let box = 0; box < numBoxes; box++) {
+      let best = -1;
+      for (let cls = 0; cls < numClasses; cls++) {
+        const score = scores[box * numClasses + cls];
+        if (score > maxScores[box]) {
+          maxScores[box] = score;
+          best = cls;
+        }
+      }
+      classes[box] = best;
+    }
+
+    return { maxScores, classes };
+  }
+
+  async detect(image: ImageBitmap, { signal }: DetectObjectsOptions = {}): Promise<DetectedObject[]> {
+    const model = this.model ?? await this.loadModel();
+    signal?.throwIfAborted();
+
+    const input = tf.tidy(() => tf.browser.fromPixels(image).expandDims(0));
+    const [scoresTensor, boxesTensor] = await model.executeAsync(input) as tf.Tensor[];
+    input.dispose();
+
+    const [, numBoxes, numClasses] = scoresTensor.shape;
+    const scores = await scoresTensor.data();
+    const boxes = await boxesTensor.data();
+    tf.dispose([scoresTensor, boxesTensor]);
+    signal?.throwIfAborted();
+
+    const { maxScores, classes } = this.getBestClasses(scores, numBoxes, numClasses);
+
+    const candidates = tf.tensor2d(boxes, [numBoxes, 4]);
+    const indexTensor = await tf.image.nonMaxSuppressionAsync(candidates, maxScores, MAX_BOXES, IOU_THRESHOLD, MIN_SCORE);
+    const indexes = await indexTensor.data();
+    tf.dispose([candidates, indexTensor]);
+
+    const objects: DetectedObject[] = [];
+
+    indexes.forEach(index => {
+      // Model classes are 0-based, COCO ids start at 1
+      const cocoLabel = COCO_WASTE_MAP[classes[index] + 1];
+
+      // People, animals and vehicles are not waste
+      if (!cocoLabel || cocoLabel.wasteType === 'unknown') return;
+
+      const [minY, minX, maxY, maxX] = boxes.slice(index * 4, index * 4 + 4);
+      objects.push({
+        bbox: [minX, minY, maxX - minX, maxY - minY],
+        label: cocoLabel.label,
+        score: maxScores[index],
+        wasteType: cocoLabel.wasteType,
+        category: WASTE_CATEGORIES[cocoLabel.wasteType].category
+      });
+    });
+
+    return objects;
+  }
+}
@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import { WASTE_TAXONOMY, type WasteCategory } from '@/data/wasteTaxonomy';
+import type { WasteDetectionResult } from './wasteCategories';
+import { recurrenceRuleSchema, type CollectionArea } from './collectionSchedule';
+
+// Regional segregation rules. Each profile is a JSON file in src/data/regions
+// that says which bins a city uses and which materials go in each, so a
+// council can add its rules without touching the code.
+
+const SELECTED_PROFILE_KEY = 'waste-region-profile';
+const DEFAULT_PROFILE_ID = 'generic';
+export const REGION_CHANGE_EVENT = 'waste-region-profile-change';
+
+export const BIN_COLORS = ['green', 'blue', 'red', 'black', 'yellow', 'grey', 'brown', 'purple'] as const;
+
+export type BinColor = typeof BIN_COLORS[number];
+
+const categoryIds = WASTE_TAXONOMY.map(category => category.id) as [WasteCategory, ...WasteCategory[]];
+
+const regionBinSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  color: z.enum(BIN_COLORS),
+  description: z.string(),
+  // What goes in this bin. A material listed here wins over its subcategory,
+  // which wins over its category.
+  categories: z.array(z.enum(categoryIds)),
+  subcategories: z.array(z.string()).default([]),
+  materials: z.array(z.string()).default([]),
+  instructions: z.array(z.string()).min(1),
+  // When and how it is collected
+  collection: z.string().optional(),
+  // Not collected from the door, the user has to take it somewhere
+  dropOff: z.boolean().default(false)
+});
+
+// A part of the city with its own collection days
+const collectionAreaSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  collections: z.array(z.object({
+    bin: z.string(),
+    rule: recurrenceRuleSchema
+  })).min(1)
+});
+
+const regionProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  authority: z.string().optional(),
+  website: z.string().url().optional(),
+  bins: z.array(regionBinSchema).min(1),
+  areas: z.array(collectionAreaSchema).default([]),
+  notes: z.array(z.string()).default([])
+});
+
+export interface RegionBin {
+  id: string;
+  name: string;
+  color: BinColor;
+  description: string;
+  categories: WasteCategory[];
+  subcategories: string[];
+  materials: string[];
+  instructions: string[];
+  collection?: string;
+  dropOff: boolean;
+}
+
+export interface RegionProfile {
+  id: string;
+  name: string;
+  authority?: string;
+  website?: string;
+  bins: RegionBin[];
+  areas: CollectionArea[];
+  notes: string[];
+}
+
+// Where an item sits in the taxonomy, as much of it as is known
+export interface BinQuery {
+  category: WasteCategory;
+  subcategory?: string;
+  material?: string;
+}
+
+export const resolveBin = (profile: RegionProfile, { category, subcategory, material }: BinQuery): RegionBin | null => {
+  const byMaterial = material ? profile.bins.find(bin => bin.materials.includes(material)) : undefined;
+  const bySubcategory = subcategory ? profile.bins.find(bin => bin.subcategories.includes(subcategory)) : undefined;
+  return byMaterial ?? bySubcategory ?? profile.bins.find(bin => bin.categories.includes(category)) ?? null;
+};
+
+// The bin for a detection result, null while it is still uncertain
+export const resolveResultBin = (profile: RegionProfile, result: Pick<WasteDetectionResult, 'category' | 'subcategory' | 'material'>): RegionBin | null =>
+  result.category === 'uncertain'
+    ? null
+    : resolveBin(profile, { category: result.category, subcategory: result.subcategory, material: result.material });
+
+// Names of taxonomy materials no bin of the profile accepts
+const findUnassignedMaterials = (profile: RegionProfile): string[] =>
+  WASTE_TAXONOMY.flatMap(category =>
+    category.subcategories.flatMap(subcategory =>
+      subcategory.materials
+        .filter(material => !resolveBin(profile, { category: category.id, subcategory: subcategory.id, material: material.id }))
+        .map(material => material.name)
+    )
+  );
+
+// Validate a profile, throwing an Error that explains what is wrong
+export const parseRegionProfile = (data: unknown): RegionProfile => {
+  const parsed = regionProfileSchema.safeParse(data);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new Error(`${issue?.path.join('.')}: ${issue?.message}`);
+  }
+
+  // Validated above, zod only types the fields as optional
+  const profile = parsed.data as RegionProfile;
+  const unknownBin = profile.areas
+    .flatMap(area => area.collections)
+    .find(collection => !profile.bins.some(bin => bin.id === collection.bin));
+  if (unknownBin) {
+    throw new Error(`Collection for unknown bin ${unknownBin.bin}`);
+  }
+  const unassigned = findUnassignedMaterials(profile);
+  if (unassigned.length > 0) {
+    throw new Error(`No bin for ${unassigned.slice(0, 3).join(', ')}${unassigned.length > 3 ? ` and ${unassigned.length - 3} more` : ''}`);
+  }
+  return profile;
+};
+
+const loadBundledProfiles = (): RegionProfile[] => {
+  const files = import.meta.glob<unknown>('../data/regions/*.json', { eager: true, import: 'default' });
+
+  return Object.entries(files).flatMap(([path, data]) => {
+    try {
+      return [parseRegionProfile(data)];
+    } catch (error) {
+      console.warn(`Skipping invalid region profile ${path}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }).sort((a, b) => a.id === DEFAULT_PROFILE_ID ? -1 : b.id === DEFAULT_PROFILE_ID ? 1 : a.name.localeCompare(b.name));
+};
+
+export const REGION_PROFILES = loadBundledProfiles();
+
+export const getRegionProfile = (id: string): RegionProfile =>
+  REGION_PROFILES.find(profile => profile.id === id)
+  ?? REGION_PROFILES.find(profile => profile.id === DEFAULT_PROFILE_ID)
+  ?? REGION_PROFILES[0];
+
+export const getSelectedRegionProfile = (): RegionProfile => {
+  try {
+    return getRegionProfile(localStorage.getItem(SELECTED_PROFILE_KEY) ?? DEFAULT_PROFILE_ID);
+  } catch {
+    return getRegionProfile(DEFAULT_PROFILE_ID);
+  }
+};
+
+export const setSelectedRegionProfile = (id: string): void => {
+  try {
+    localStorage.setItem(SELECTED_PROFILE_KEY, id);
+  } catch (error) {
+    console.warn('Unable to save region profile:', error);
+  }
+  // The collection schedule depends on the region, so reminders are
+  // rescheduled when it changes
+  window.dispatchEvent(new Event(REGION_CHANGE_EVENT));
+};
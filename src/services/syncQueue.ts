@@ -0,0 +1,80 @@
+import { STORES, updateRecord, withStore } from './localDatabase';
+import { setHistoryResult } from './historyStore';
+import type { ImageCrop } from './imagePreprocessing';
+import { wasteDetectionService } from './wasteDetection';
+
+// Photos analyzed in the browser because the inference server could not be
+// reached, usually while offline. They are kept with their history entry's
+// id and sent to the server again once the device is back online.
+
+// Give up on a photo the server keeps failing on
+const MAX_ATTEMPTS = 5;
+
+export interface QueuedAnalysis {
+  // Id of the history entry the result belongs to
+  id: string;
+  createdAt: number;
+  image: Blob;
+  crop: ImageCrop;
+  attempts: number;
+}
+
+export interface SyncSummary {
+  synced: number;
+  remaining: number;
+}
+
+// Oldest first
+export const listQueuedAnalyses = async (): Promise<QueuedAnalysis[]> =>
+  await withStore(STORES.syncQueue, 'readonly', store => store.index('createdAt').getAll()) as QueuedAnalysis[];
+
+export const enqueueAnalysis = async (historyId: string, image: Blob, crop: ImageCrop): Promise<void> => {
+  const queued: QueuedAnalysis = { id: historyId, createdAt: Date.now(), image, crop, attempts: 0 };
+  await withStore(STORES.syncQueue, 'readwrite', store => store.put(queued));
+};
+
+export const removeQueuedAnalysis = (id: string): Promise<undefined> =>
+  withStore(STORES.syncQueue, 'readwrite', store => store.delete(id));
+
+let flushing: Promise<SyncSummary> | null = null;
+
+const flush = async (): Promise<SyncSummary> => {
+  // Kept for later if the server was switched off in the meantime
+  if (!wasteDetectionService.usesServer()) {
+    return { synced: 0, remaining: (await listQueuedAnalyses()).length };
+  }
+
+  let synced = 0;
+  for (const analysis of await listQueuedAnalyses()) {
+    if (!navigator.onLine) break;
+
+    const result = await wasteDetectionService.classifyOnServer(analysis.image, { crop: analysis.crop });
+    if (result) {
+      await setHistoryResult(analysis.id, result);
+      await removeQueuedAnalysis(analysis.id);
+      synced++;
+      continue;
+    }
+
+    // Most likely the server is down rather than this photo being the
+    // problem, so stop and try the rest next time
+    const attempts = analysis.attempts + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      await removeQueuedAnalysis(analysis.id);
+    } else {
+      await updateRecord<QueuedAnalysis>(STORES.syncQueue, analysis.id, queued => ({ ...queued, attempts }));
+    }
+    break;
+  }
+
+  return { synced, remaining: (await listQueuedAnalyses()).length };
+};
+
+// Send every queued photo to the server, one at a time. Concurrent calls
+// share the same run.
+export const flushSyncQueue = (): Promise<SyncSummary> => {
+  flushing ??= flush().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
@@ -0,0 +1,152 @@
+import type { MappedWasteType, WasteType } from '@/data/imagenetWasteMap';
+import {
+  findMaterial,
+  getTaxonomyCategory,
+  isWasteBin,
+  type MaterialPath,
+  type WasteBin,
+  type WasteCategory
+} from '@/data/wasteTaxonomy';
+import type { CategoryScores, ResultSource } from './calibration';
+
+export type { WasteBin, WasteCategory } from '@/data/wasteTaxonomy';
+
+// A single class predicted by the model, most likely first
+export interface WastePrediction {
+  label: string;
+  score: number;
+  wasteType: MappedWasteType;
+}
+
+// Which classifier produced a result, see services/classifiers. "custom" is
+// the head the user trained on their own corrections.
+export type DetectionSource = ResultSource | "custom" | "server" | "ensemble";
+
+export interface WasteDetectionResult {
+  // "uncertain" when neither the model nor the color heuristic is confident enough
+  category: WasteCategory | "uncertain";
+  // Ids into the waste taxonomy when the item itself was recognised
+  subcategory?: string;
+  material?: string;
+  // Score of the chosen waste type after temperature scaling. The
+  // temperatures are fitted to synthetic samples, so treat it as an estimate
+  // rather than a calibrated probability.
+  confidence: number;
+  // Scaled score of every waste type, sums to 1. The custom head
+  // predicts bins directly, so its probabilities are keyed by bin instead.
+  probabilities: CategoryScores | Record<WasteBin, number>;
+  // Which classifier produced this result
+  source: DetectionSource;
+  items: string[];
+  // The model's real top-k classes, empty when the color heuristic was used
+  predictions: WastePrediction[];
+  recommendations: string[];
+}
+
+export interface WasteCategoryInfo {
+  category: WasteBin;
+  items: string[];
+  recommendations: string[];
+}
+
+// Waste categories mapping based on common waste types
+export const WASTE_CATEGORIES: Record<WasteType, WasteCategoryInfo> = {
+  organic: {
+    category: "wet",
+    items: ["Food scraps", "Fruit peels", "Vegetable waste", "Organic matter"],
+    recommendations: [
+      "This appears to be organic waste suitable for composting",
+      "Consider starting a home compost system"
+    ]
+  },
+  recyclable: {
+    category: "dry",
+    items: ["Plastic bottles", "Paper", "Cardboard", "Metal cans", "Glass"],
+    recommendations: [
+      "These items can be recycled",
+      "Clean the containers before recycling",
+      "Keep paper and cardboard dry"
+    ]
+  },
+  electronic: {
+    category: "hazardous",
+    items: ["Electronic devices", "Batteries", "Circuit boards"],
+    recommendations: [
+      "This requires special disposal methods",
+      "Take to designated e-waste collection center",
+      "Do not dispose in regular waste bins"
+    ]
+  },
+  general: {
+    category: "dry",
+    items: ["Mixed waste", "Non-recyclable items"],
+    recommendations: [
+      "Place in general waste bin",
+      "Consider reducing waste by choosing reusable alternatives",
+      "Check if any components can be separated for recycling"
+    ]
+  }
+};
+
+export const UNCERTAIN_RECOMMENDATIONS = [
+  "We could not identify this item with enough confidence",
+  "Answer a few quick questions to find the right bin",
+  "When in doubt, keep it out of the recycling and compost bins"
+];
+
+// The same result, reported as too unsure to pick a bin. The predictions are
+// kept so the user can still see them.
+export const markUncertain = (result: WasteDetectionResult): WasteDetectionResult => ({
+  ...result,
+  category: "uncertain",
+  items: [],
+  recommendations: UNCERTAIN_RECOMMENDATIONS
+});
+
+// One item found by the object detector
+export interface DetectedObject {
+  // [x, y, width, height] as fractions of the image size
+  bbox: [number, number, number, number];
+  label: string;
+  score: number;
+  wasteType: WasteType;
+  category: WasteCategory;
+  // Id into the waste taxonomy when the label names a known material
+  material?: string;
+}
+
+// Disposal advice for a category, used when the user overrides the detected one
+export const getCategoryRecommendations = (category: WasteCategory): string[] =>
+  getTaxonomyCategory(category).recommendations;
+
+// The material a label names, if it fits the category a classifier chose.
+// A material may move an item into a category the classifiers cannot score
+// (a diaper is sanitary waste) but never into a different scored bin.
+const matchMaterial = (category: WasteCategory, label: string): MaterialPath | null => {
+  const path = findMaterial(label);
+  if (!path) return null;
+  return isWasteBin(path.category.id) && path.category.id !== category ? null : path;
+};
+
+// Place a result in the taxonomy using the model's top label
+export const refineWithTaxonomy = (result: WasteDetectionResult): WasteDetectionResult => {
+  const [topPrediction] = result.predictions;
+  if (result.category === "uncertain" || result.material || !topPrediction) return result;
+
+  const path = matchMaterial(result.category, topPrediction.label);
+  if (!path) return result;
+
+  const category = path.category.id;
+  return {
+    ...result,
+    category,
+    subcategory: path.subcategory.id,
+    material: path.material.id,
+    recommendations: category === result.category ? result.recommendations : path.category.recommendations
+  };
+};
+
+export const refineObjectWithTaxonomy = (object: DetectedObject): DetectedObject => {
+  const path = matchMaterial(object.category, object.label);
+  return path ? { ...object, category: path.category.id, material: path.material.id } : object;
+};
@@ -1,270 +1,470 @@
-import * as tf from '@tensorflow/tfjs';
-import '@tensorflow/tfjs-backend-webgl';
-
-export interface WasteDetectionResult {
-  category: "wet" | "dry" | "hazardous";
-  confidence: number;
-  items: string[];
-  recommendations: string[];
+import type { WasteDetectionEngine } from './detectionEngine';
+import type { CustomHeadInfo, TrainHeadOptions, TrainingProgress } from './customHead';
+import { CLASSIFIER_METADATA, DEFAULT_CLASSIFIER, type ClassifierSettings } from './classifiers/metadata';
+import { requestServerClassification, ServerRequestError } from './classifiers/serverRequest';
+import { encodeJpeg, prepareImage, type ImageCrop } from './imagePreprocessing';
+import { markUncertain, refineWithTaxonomy, type DetectedObject, type WasteDetectionResult } from './wasteCategories';
+import { queryClient } from '@/lib/queryClient';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+export type { DetectedObject, WasteBin, WasteCategory, WasteDetectionResult, WastePrediction } from './wasteCategories';
+export type { CustomHeadInfo, TrainingProgress } from './customHead';
+export { CLASSIFIER_METADATA, DEFAULT_CLASSIFIER } from './classifiers/metadata';
+export type { ClassifierId, ClassifierMetadata, ClassifierSettings } from './classifiers/metadata';
+
+const clampThreshold = (threshold: number) => Math.min(Math.max(threshold, 0), 1);
+
+// Parses a configured or stored threshold, null if it is missing or not a
+// number. 0 is valid and turns the uncertainty check off.
+const parseThreshold = (value: string | null | undefined): number | null => {
+  const threshold = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(threshold) ? clampThreshold(threshold) : null;
+};
+
+// Results below this confidence are reported as "uncertain"
+const DEFAULT_UNCERTAINTY_THRESHOLD = parseThreshold(import.meta.env.VITE_UNCERTAINTY_THRESHOLD) ?? 0.5;
+
+// Deployments with their own inference server can make it the default
+const DEFAULT_SERVER_URL = import.meta.env.VITE_CLASSIFIER_URL ?? '';
+
+// The inference server gets this long, retries included, before the photo is
+// classified in the browser instead
+const REMOTE_TIMEOUT_MS = 8_000;
+const REMOTE_RETRIES = 2;
+
+// localStorage keys for the user's settings. The custom head itself lives
+// in IndexedDB, only its details are kept here.
+const CUSTOM_HEAD_INFO_KEY = 'waste-custom-head-info';
+const CLASSIFIER_SETTINGS_KEY = 'waste-classifier-settings';
+const UNCERTAINTY_THRESHOLD_KEY = 'waste-uncertainty-threshold';
+
+export interface DetectWasteOptions {
+  // Aborting rejects the promise with an AbortError and stops the worker job
+  signal?: AbortSignal;
+  // Part of the image to classify, defaults to the centered square
+  crop?: ImageCrop;
+}
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: TrainingProgress) => void;
+}
+
+interface RequestOptions {
+  transfer?: Transferable[];
+  signal?: AbortSignal;
+  onProgress?: (progress: TrainingProgress) => void;
 }
 
-// Waste categories mapping based on common waste types
-const WASTE_CATEGORIES = {
-  organic: {
-    category: "wet" as const,
-    items: ["Food scraps", "Fruit peels", "Vegetable waste", "Organic matter"],
-    recommendations: [
-      "This appears to be organic waste suitable for composting",
-      "Place in your green/wet waste bin",
-      "Consider starting a home compost system"
-    ]
-  },
-  recyclable: {
-    category: "dry" as const,
-    items: ["Plastic bottles", "Paper", "Cardboard", "Metal cans", "Glass"],
-    recommendations: [
-      "These items can be recycled",
-      "Clean the containers before recycling",
-      "Place in your blue/dry waste bin"
-    ]
-  },
-  electronic: {
-    category: "hazardous" as const,
-    items: ["Electronic devices", "Batteries", "Circuit boards"],
-    recommendations: [
-      "This requires special disposal methods",
-      "Take to designated e-waste collection center",
-      "Do not dispose in regular waste bins"
-    ]
-  },
-  general: {
-    category: "dry" as const,
-    items: ["Mixed waste", "Non-recyclable items"],
-    recommendations: [
-      "Place in general waste bin",
-      "Consider reducing waste by choosing reusable alternatives",
-      "Check if any components can be separated for recycling"
-    ]
+// A request before its id is assigned
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type WorkerMessage = WithoutId<WorkerRequest>;
+
+const createAbortError = () => new DOMException('Waste detection was cancelled', 'AbortError');
+
+// Storage can be disabled or full, preferences then only last for the session
+const readSetting = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeSetting = (key: string, value: string | null): void => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch (error) {
+    console.warn(`Unable to save setting ${key}:`, error);
+  }
+};
+
+const readClassifierSettings = (): ClassifierSettings => {
+  const defaults: ClassifierSettings = {
+    backend: DEFAULT_SERVER_URL ? 'server' : DEFAULT_CLASSIFIER,
+    serverUrl: DEFAULT_SERVER_URL
+  };
+
+  try {
+    const stored = JSON.parse(readSetting(CLASSIFIER_SETTINGS_KEY) ?? '{}') as Partial<ClassifierSettings>;
+    return {
+      backend: stored.backend && stored.backend in CLASSIFIER_METADATA ? stored.backend : defaults.backend,
+      serverUrl: typeof stored.serverUrl === 'string' ? stored.serverUrl : defaults.serverUrl
+    };
+  } catch {
+    return defaults;
   }
 };
 
+const readUncertaintyThreshold = (): number =>
+  parseThreshold(readSetting(UNCERTAINTY_THRESHOLD_KEY)) ?? DEFAULT_UNCERTAINTY_THRESHOLD;
+
+// Facade over the detection worker. Model loading and inference happen off
+// the main thread; if workers are unavailable the same engine runs in-thread.
 class WasteDetectionService {
-  private model: tf.LayersModel | null = null;
-  private isModelLoaded: boolean = false;
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private engine: Promise<WasteDetectionEngine> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private nextRemoteRequestId = 1;
+  private uncertaintyThreshold = readUncertaintyThreshold();
+  private classifierSettings = readClassifierSettings();
 
-  async loadModel(): Promise<void> {
-    if (this.isModelLoaded && this.model) return;
+  // Confidence (0-1) below which results are reported as "uncertain"
+  setUncertaintyThreshold(threshold: number): void {
+    this.uncertaintyThreshold = clampThreshold(threshold);
+    writeSetting(UNCERTAINTY_THRESHOLD_KEY, String(this.uncertaintyThreshold));
+  }
+
+  getUncertaintyThreshold(): number {
+    return this.uncertaintyThreshold;
+  }
+
+  // Details of the head trained on the user's corrections, null if none or
+  // if the stored details are unreadable
+  getCustomHeadInfo(): CustomHeadInfo | null {
+    const stored = readSetting(CUSTOM_HEAD_INFO_KEY);
+    if (!stored) return null;
 
     try {
-      // Initialize TensorFlow backend
-      await tf.ready();
-      console.log('TensorFlow.js backend initialized');
-
-      // Use TensorFlow.js Hub MobileNetV2 model which is more reliable
-      this.model = await tf.loadLayersModel('https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v1_0.25_224/model.json');
-      this.isModelLoaded = true;
-      console.log('Model loaded successfully');
-    } catch (error) {
-      console.error('Error loading model:', error);
-      
-      // Fallback: create a simple mock classifier for demonstration
-      console.log('Using fallback mock classifier');
-      this.model = null; // Will use fallback logic
-      this.isModelLoaded = true;
+      return JSON.parse(stored) as CustomHeadInfo;
+    } catch {
+      return null;
     }
   }
 
-  private preprocessImage(imageElement: HTMLImageElement): tf.Tensor {
-    // Convert image to tensor and preprocess for MobileNet
-    return tf.tidy(() => {
-      // Convert to tensor
-      const tensor = tf.browser.fromPixels(imageElement);
-      
-      // Resize to 224x224 (MobileNet input size)
-      const resized = tf.image.resizeBilinear(tensor, [224, 224]);
-      
-      // Normalize to [0, 1] range for MobileNetV1
-      const normalized = resized.div(255.0);
-      
-      // Add batch dimension
-      return normalized.expandDims(0);
-    });
+  // Which classifier backend analyzes photos, and how to reach the server one
+  getClassifierSettings(): ClassifierSettings {
+    return { ...this.classifierSettings };
+  }
+
+  setClassifierSettings(changes: Partial<ClassifierSettings>): void {
+    this.classifierSettings = { ...this.classifierSettings, ...changes };
+    writeSetting(CLASSIFIER_SETTINGS_KEY, JSON.stringify(this.classifierSettings));
+    void this.configureEngine();
   }
 
-  private analyzeImageFeatures(predictions: tf.Tensor | null, imageElement: HTMLImageElement): WasteDetectionResult {
-    if (!predictions) {
-      // Fallback analysis based on image characteristics
-      return this.fallbackAnalysis(imageElement);
+  // Tell an engine that is already running about the new backend so it can
+  // release the models it no longer needs. One that has not started yet
+  // gets the settings with its first detection.
+  private async configureEngine(): Promise<void> {
+    let classifier = this.getActiveClassifier();
+    // The server is called from this thread, the engine only runs the fallback
+    if (classifier.backend === 'server') {
+      classifier = { ...classifier, backend: DEFAULT_CLASSIFIER };
+    }
+    try {
+      if (this.worker) {
+        await this.request(this.worker, { type: 'configure', classifier });
+      } else if (this.engine) {
+        (await this.engine).configure(classifier);
+      }
+    } catch (error) {
+      console.warn('Unable to apply classifier settings to the detection engine:', error);
     }
+  }
 
-    // Get prediction values
-    const predictionData = predictions.dataSync();
-    
-    // Find the top predictions and their indices
-    const topIndices = Array.from(predictionData)
-      .map((value, index) => ({ value, index }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 5);
-    
-    // Improved mapping for organic/food waste (banana peels, food scraps, etc.)
-    let wasteType: keyof typeof WASTE_CATEGORIES = 'general';
-    
-    // Check for food/organic items first (ImageNet classes 0-999)
-    const organicIndices = topIndices.filter(item => 
-      // Food categories in ImageNet typically include:
-      // 0-399: Various food items, fruits, vegetables
-      (item.index >= 0 && item.index < 400) ||
-      // Specific organic matter indices
-      (item.index >= 950 && item.index < 970)
-    );
-    
-    const recyclableIndices = topIndices.filter(item =>
-      // Bottles, containers, paper items
-      (item.index >= 440 && item.index < 500) ||
-      (item.index >= 720 && item.index < 780)
-    );
-    
-    const electronicIndices = topIndices.filter(item =>
-      // Electronic devices, computers, phones
-      (item.index >= 600 && item.index < 680)
-    );
-    
-    // Determine waste type based on strongest category
-    if (organicIndices.length > 0 && organicIndices[0].value > 0.1) {
-      wasteType = 'organic';
-    } else if (recyclableIndices.length > 0 && recyclableIndices[0].value > 0.1) {
-      wasteType = 'recyclable';
-    } else if (electronicIndices.length > 0 && electronicIndices[0].value > 0.1) {
-      wasteType = 'electronic';
-    } else {
-      // Use fallback analysis for unclear cases
-      return this.fallbackAnalysis(imageElement);
+  // The settings sent with each detection. The personal model can only be
+  // used once it has been trained, the server once it has a URL.
+  private getActiveClassifier(): ClassifierSettings {
+    const { backend, serverUrl } = this.classifierSettings;
+    if ((backend === 'custom' && !this.getCustomHeadInfo()) || (backend === 'server' && !serverUrl.trim())) {
+      return { ...this.classifierSettings, backend: DEFAULT_CLASSIFIER };
     }
+    return this.getClassifierSettings();
+  }
 
-    const categoryInfo = WASTE_CATEGORIES[wasteType];
-    const maxPrediction = Math.max(...predictionData);
-    
-    return {
-      category: categoryInfo.category,
-      confidence: Math.min(maxPrediction * 1.5, 0.92), // Boost confidence for demo
-      items: categoryInfo.items.slice(0, 2 + Math.floor(Math.random() * 2)), // Random subset
-      recommendations: categoryInfo.recommendations
+  // Classify on the inference server, retrying network and server errors
+  // through the shared QueryClient. Resolves to null if the server cannot be
+  // reached in time or its answer is invalid, rejects only when aborted.
+  private async classifyRemotely(image: ImageBitmap, url: string, signal?: AbortSignal): Promise<WasteDetectionResult | null> {
+    const body = await encodeJpeg(image);
+    const queryKey = ['remote-classification', this.nextRemoteRequestId++];
+    const controller = new AbortController();
+    const abort = () => {
+      controller.abort();
+      void queryClient.cancelQueries({ queryKey });
     };
+    const timeout = setTimeout(abort, REMOTE_TIMEOUT_MS);
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      const result = await queryClient.fetchQuery({
+        queryKey,
+        queryFn: () => requestServerClassification(url.trim(), body, controller.signal),
+        retry: (failureCount, error) =>
+          failureCount < REMOTE_RETRIES && error instanceof ServerRequestError && error.retryable,
+        // Every photo is a new request, nothing worth caching
+        gcTime: 0
+      });
+
+      if (result.category === 'uncertain') return result;
+      return result.confidence >= this.uncertaintyThreshold ? refineWithTaxonomy(result) : markUncertain(result);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+
+      console.warn('Inference server failed, classifying in the browser instead:', error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', abort);
+    }
   }
 
-  private fallbackAnalysis(imageElement: HTMLImageElement): WasteDetectionResult {
-    // Enhanced color and texture analysis for better organic waste detection
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      return {
-        ...WASTE_CATEGORIES.organic, // Default to organic for food waste
-        confidence: 0.75
-      };
+  private getWorker(): Worker | null {
+    if (this.workerFailed || typeof Worker === 'undefined') return null;
+
+    if (!this.worker) {
+      try {
+        this.worker = new Worker(new URL('./wasteDetection.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data);
+        this.worker.onerror = (event) => this.handleWorkerFailure(event.message);
+      } catch (error) {
+        this.handleWorkerFailure(error instanceof Error ? error.message : String(error));
+      }
     }
 
-    canvas.width = 150;
-    canvas.height = 150;
-    ctx.drawImage(imageElement, 0, 0, 150, 150);
-    
-    const imageData = ctx.getImageData(0, 0, 150, 150);
-    const pixels = imageData.data;
-    
-    let yellowSum = 0, brownSum = 0, greenSum = 0, metalSum = 0, blackSum = 0;
-    let totalBrightness = 0;
-    
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = pixels[i];
-      const g = pixels[i + 1];
-      const b = pixels[i + 2];
-      
-      totalBrightness += (r + g + b) / 3;
-      
-      // Enhanced color detection for organic materials
-      // Yellow/brown colors typical of banana peels, fruit skins
-      if (r > 150 && g > 100 && b < 100) yellowSum++;
-      if (r > 80 && g > 60 && b < 80 && Math.abs(r - g) < 50) brownSum++;
-      
-      // Green colors for vegetables, leaves
-      if (g > r && g > b && g > 80) greenSum++;
-      
-      // Metallic/shiny surfaces for cans, electronics
-      if (r > 180 && g > 180 && b > 180) metalSum++;
-      
-      // Dark colors that might indicate electronic components
-      if (r < 50 && g < 50 && b < 50) blackSum++;
+    return this.worker;
+  }
+
+  private handleWorkerFailure(message: string): void {
+    console.error('Detection worker failed, falling back to the main thread:', message);
+    this.workerFailed = true;
+    this.worker?.terminate();
+    this.worker = null;
+
+    const error = new Error('Detection worker stopped unexpectedly');
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    const request = this.pending.get(response.id);
+
+    // Cancelled requests have already been rejected
+    if (!request) return;
+
+    if (response.type === 'trainingProgress') {
+      request.onProgress?.(response.progress);
+      return;
     }
-    
-    const total = pixels.length / 4;
-    const yellowRatio = yellowSum / total;
-    const brownRatio = brownSum / total;
-    const greenRatio = greenSum / total;
-    const metalRatio = metalSum / total;
-    const blackRatio = blackSum / total;
-    const avgBrightness = totalBrightness / total;
-    
-    let wasteType: keyof typeof WASTE_CATEGORIES;
-    let confidence: number;
-    
-    // Prioritize organic waste detection (like banana peels)
-    if (yellowRatio > 0.15 || brownRatio > 0.2 || greenRatio > 0.25) {
-      wasteType = 'organic';
-      confidence = 0.85;
-    } else if (metalRatio > 0.3 && avgBrightness > 120) {
-      wasteType = 'recyclable';
-      confidence = 0.8;
-    } else if (blackRatio > 0.4 && avgBrightness < 80) {
-      wasteType = 'electronic';
-      confidence = 0.75;
+
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
     } else {
-      wasteType = 'organic'; // Default to organic for unclear cases
-      confidence = 0.7;
+      request.resolve(response);
     }
-    
-    const categoryInfo = WASTE_CATEGORIES[wasteType];
-    
-    return {
-      category: categoryInfo.category,
-      confidence: confidence,
-      items: wasteType === 'organic' ? ['Organic waste', 'Food scraps'] : categoryInfo.items.slice(0, 2),
-      recommendations: categoryInfo.recommendations
-    };
   }
 
-  async detectWaste(imageElement: HTMLImageElement): Promise<WasteDetectionResult> {
-    if (!this.isModelLoaded) {
-      await this.loadModel();
+  private request(
+    worker: Worker,
+    message: WorkerMessage,
+    { transfer = [], signal, onProgress }: RequestOptions = {}
+  ): Promise<WorkerResponse> {
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        this.pending.delete(id);
+        worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+        reject(createAbortError());
+      };
+
+      this.pending.set(id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', abort);
+          resolve(response);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', abort);
+          reject(error);
+        },
+        onProgress
+      });
+
+      signal?.addEventListener('abort', abort, { once: true });
+      worker.postMessage({ ...message, id }, transfer);
+    });
+  }
+
+  // In-thread engine, imported on demand so TensorFlow.js stays out of the
+  // main bundle unless it is actually needed here
+  private getEngine(): Promise<WasteDetectionEngine> {
+    this.engine ??= import('./detectionEngine').then(({ WasteDetectionEngine }) => new WasteDetectionEngine());
+    return this.engine;
+  }
+
+  async loadModel(): Promise<void> {
+    const worker = this.getWorker();
+
+    if (worker) {
+      await this.request(worker, { type: 'load' });
+      return;
+    }
+
+    const engine = await this.getEngine();
+    await engine.loadModel();
+  }
+
+  // Work on our own upright, downscaled copy so the caller's image stays
+  // usable after the bitmap is transferred to the worker
+  private async toBitmap(image: ImageBitmapSource, crop: ImageCrop, signal?: AbortSignal): Promise<ImageBitmap> {
+    signal?.throwIfAborted();
+
+    const bitmap = await prepareImage(image, { crop });
+    if (signal?.aborted) {
+      bitmap.close();
+      throw createAbortError();
+    }
+
+    return bitmap;
+  }
+
+  async detectWaste(image: ImageBitmapSource, { signal, crop = 'center' }: DetectWasteOptions = {}): Promise<WasteDetectionResult> {
+    const bitmap = await this.toBitmap(image, crop, signal);
+    let classifier = this.getActiveClassifier();
+
+    // The server is called from here so retries share the app's QueryClient.
+    // If it fails, or the device is offline, the in-browser model takes over.
+    if (classifier.backend === 'server') {
+      let result: WasteDetectionResult | null = null;
+      if (navigator.onLine) {
+        try {
+          result = await this.classifyRemotely(bitmap, classifier.serverUrl, signal);
+        } finally {
+          if (result || signal?.aborted) bitmap.close();
+        }
+      }
+      if (result) return result;
+
+      classifier = { ...classifier, backend: DEFAULT_CLASSIFIER };
+    }
+
+    const worker = this.getWorker();
+
+    if (!worker) {
+      const engine = await this.getEngine();
+      try {
+        return await engine.detect(bitmap, {
+          uncertaintyThreshold: this.uncertaintyThreshold,
+          classifier,
+          signal
+        });
+      } finally {
+        bitmap.close();
+      }
     }
 
+    const response = await this.request(
+      worker,
+      {
+        type: 'detect',
+        image: bitmap,
+        uncertaintyThreshold: this.uncertaintyThreshold,
+        classifier
+      },
+      { transfer: [bitmap], signal }
+    );
+
+    if (response.type !== 'result') {
+      throw new Error(`Unexpected response from detection worker: ${response.type}`);
+    }
+
+    return response.result;
+  }
+
+  // A result the in-browser model produced while the server was meant to
+  // classify, worth sending again once the server can be reached
+  needsServerSync(result: WasteDetectionResult): boolean {
+    return this.usesServer() && result.source !== 'server';
+  }
+
+  usesServer(): boolean {
+    return this.getActiveClassifier().backend === 'server';
+  }
+
+  // Classify on the inference server only, for photos analyzed while it was
+  // unreachable. Resolves to null if no server is set up or it still fails.
+  async classifyOnServer(image: ImageBitmapSource, { signal, crop = 'center' }: DetectWasteOptions = {}): Promise<WasteDetectionResult | null> {
+    const classifier = this.getActiveClassifier();
+    if (classifier.backend !== 'server') return null;
+
+    const bitmap = await this.toBitmap(image, crop, signal);
     try {
-      let predictions: tf.Tensor | null = null;
-      
-      if (this.model) {
-        // Preprocess image
-        const preprocessed = this.preprocessImage(imageElement);
-        
-        // Run inference
-        predictions = this.model.predict(preprocessed) as tf.Tensor;
-        
-        // Clean up preprocessing tensor
-        preprocessed.dispose();
+      return await this.classifyRemotely(bitmap, classifier.serverUrl, signal);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  // Find every item in the image with the object detector, each with its own
+  // category. Rejects if the detection model is unavailable. Boxes are
+  // relative to the whole image, so it is never cropped.
+  async detectObjects(image: ImageBitmapSource, { signal }: Omit<DetectWasteOptions, 'crop'> = {}): Promise<DetectedObject[]> {
+    const bitmap = await this.toBitmap(image, 'none', signal);
+    const worker = this.getWorker();
+
+    if (!worker) {
+      const engine = await this.getEngine();
+      try {
+        return await engine.detectObjects(bitmap, signal);
+      } finally {
+        bitmap.close();
       }
-      
-      // Analyze results (works with or without model)
-      const result = this.analyzeImageFeatures(predictions, imageElement);
-      
-      // Clean up prediction tensor if it exists
-      if (predictions) {
-        predictions.dispose();
+    }
+
+    const response = await this.request(worker, { type: 'detectObjects', image: bitmap }, { transfer: [bitmap], signal });
+
+    if (response.type !== 'objects') {
+      throw new Error(`Unexpected response from detection worker: ${response.type}`);
+    }
+
+    return response.objects;
+  }
+
+  // Train a classification head on the user's saved corrections. Once
+  // trained it becomes the active classifier.
+  async trainCustomHead({ signal, onProgress }: TrainHeadOptions = {}): Promise<CustomHeadInfo> {
+    const worker = this.getWorker();
+    let info: CustomHeadInfo;
+
+    if (worker) {
+      const response = await this.request(worker, { type: 'trainCustomHead' }, { signal, onProgress });
+      if (response.type !== 'trained') {
+        throw new Error(`Unexpected response from detection worker: ${response.type}`);
       }
-      
-      return result;
-    } catch (error) {
-      console.error('Error during waste detection:', error);
-      
-      // Use fallback analysis
-      return this.fallbackAnalysis(imageElement);
+      info = response.info;
+    } else {
+      const engine = await this.getEngine();
+      info = await engine.trainCustomHead({ signal, onProgress });
+    }
+
+    writeSetting(CUSTOM_HEAD_INFO_KEY, JSON.stringify(info));
+    this.setClassifierSettings({ backend: 'custom' });
+    return info;
+  }
+
+  // Delete the trained head and go back to the ImageNet mapping
+  async resetCustomHead(): Promise<void> {
+    const worker = this.getWorker();
+
+    if (worker) {
+      await this.request(worker, { type: 'resetCustomHead' });
+    } else {
+      const engine = await this.getEngine();
+      await engine.resetCustomHead();
+    }
+
+    writeSetting(CUSTOM_HEAD_INFO_KEY, null);
+    if (this.classifierSettings.backend === 'custom') {
+      this.setClassifierSettings({ backend: DEFAULT_CLASSIFIER });
     }
   }
 
@@ -279,4 +479,4 @@ class WasteDetectionService {
   }
 }
 
-export const wasteDetectionService = new WasteDetectionService();
\ No newline at end of file
+export const wasteDetectionService = new WasteDetectionService();
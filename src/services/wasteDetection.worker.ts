@@ -0,0 +1,86 @@
+import { WasteDetectionEngine } from './detectionEngine';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+// Model loading and inference run here so the UI thread never blocks
+
+const engine = new WasteDetectionEngine();
+const inFlight = new Map<number, AbortController>();
+
+const respond = (response: WorkerResponse) => self.postMessage(response);
+
+// Run a cancellable job and send back its response, closing the image it
+// worked on (if any) afterwards
+const runJob = async (id: number, job: (signal: AbortSignal) => Promise<WorkerResponse>, image?: ImageBitmap) => {
+  const controller = new AbortController();
+  inFlight.set(id, controller);
+
+  try {
+    respond(await job(controller.signal));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      respond({ type: 'cancelled', id });
+    } else {
+      respond({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    inFlight.delete(id);
+    image?.close();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'load':
+      // Through runJob so a failed load is reported instead of never answered
+      await runJob(request.id, async () => {
+        await engine.loadModel();
+        return { type: 'loaded', id: request.id, modelAvailable: engine.isModelAvailable };
+      });
+      break;
+    case 'detect':
+      await runJob(request.id, async signal => ({
+        type: 'result',
+        id: request.id,
+        result: await engine.detect(request.image, {
+          uncertaintyThreshold: request.uncertaintyThreshold,
+          classifier: request.classifier,
+          signal
+        })
+      }), request.image);
+      break;
+    case 'detectObjects':
+      await runJob(request.id, async signal => ({
+        type: 'objects',
+        id: request.id,
+        objects: await engine.detectObjects(request.image, signal)
+      }), request.image);
+      break;
+    case 'trainCustomHead':
+      await runJob(request.id, async signal => ({
+        type: 'trained',
+        id: request.id,
+        info: await engine.trainCustomHead({
+          signal,
+          onProgress: progress => respond({ type: 'trainingProgress', id: request.id, progress })
+        })
+      }));
+      break;
+    case 'resetCustomHead':
+      await runJob(request.id, async () => {
+        await engine.resetCustomHead();
+        return { type: 'customHeadReset', id: request.id };
+      });
+      break;
+    case 'configure':
+      await runJob(request.id, async () => {
+        engine.configure(request.classifier);
+        return { type: 'configured', id: request.id };
+      });
+      break;
+    case 'cancel':
+      inFlight.get(request.id)?.abort();
+      break;
+  }
+};
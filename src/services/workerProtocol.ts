@@ -0,0 +1,28 @@
+import type { CustomHeadInfo, TrainingProgress } from './customHead';
+import type { ClassifierSettings } from './classifiers/metadata';
+import type { DetectedObject, WasteDetectionResult } from './wasteCategories';
+
+// Messages the main thread sends to the detection worker. Every request
+// carries an id so responses and cancellations can be matched up.
+export type WorkerRequest =
+  | { type: 'load'; id: number }
+  | { type: 'detect'; id: number; image: ImageBitmap; uncertaintyThreshold: number; classifier: ClassifierSettings }
+  | { type: 'detectObjects'; id: number; image: ImageBitmap }
+  | { type: 'trainCustomHead'; id: number }
+  | { type: 'resetCustomHead'; id: number }
+  // Sent when the user picks another backend, so unused models are released
+  | { type: 'configure'; id: number; classifier: ClassifierSettings }
+  | { type: 'cancel'; id: number };
+
+// Messages the detection worker sends back, one per request. Training also
+// sends any number of progress messages before its final response.
+export type WorkerResponse =
+  | { type: 'loaded'; id: number; modelAvailable: boolean }
+  | { type: 'result'; id: number; result: WasteDetectionResult }
+  | { type: 'objects'; id: number; objects: DetectedObject[] }
+  | { type: 'trainingProgress'; id: number; progress: TrainingProgress }
+  | { type: 'trained'; id: number; info: CustomHeadInfo }
+  | { type: 'customHeadReset'; id: number }
+  | { type: 'configured'; id: number }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
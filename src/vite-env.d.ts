@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MODEL_URL?: string;
+  readonly VITE_MODEL_VERSION?: string;
+  readonly VITE_DETECTOR_URL?: string;
+  readonly VITE_DETECTOR_VERSION?: string;
+  readonly VITE_UNCERTAINTY_THRESHOLD?: string;
+  readonly VITE_CLASSIFIER_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Set by vite.config.ts, passed to the service worker to version its cache
+declare const __BUILD_ID__: string;
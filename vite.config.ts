@@ -1,16 +1,64 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Identifies this build to the service worker, which keeps one cache per build
+const buildId = Date.now().toString(36);
+
+// Files in public/ that are not part of the app
+const PRECACHE_EXCLUDE = [/^sw\.js$/, /(^|\/)\.gitignore$/, /\.map$/];
+
+const listFiles = (dir: string, root = dir): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(fullPath, root) : [path.relative(root, fullPath).split(path.sep).join("/")];
+    })
+    : [];
+
+// Writes precache-manifest.json, the list of files public/sw.js caches at
+// install: the built bundle plus everything in public/, model weights included
+const precacheManifest = (): Plugin => {
+  let publicDir = "";
+  let base = "/";
+
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    // After index.html has been added to the bundle
+    enforce: "post",
+    configResolved(config) {
+      publicDir = config.publicDir;
+      base = config.base;
+    },
+    generateBundle(_, bundle) {
+      const files = [...Object.keys(bundle), ...listFiles(publicDir)]
+        .filter(file => !PRECACHE_EXCLUDE.some(pattern => pattern.test(file)))
+        .map(file => `${base}${file}`);
+
+      this.emitFile({
+        type: "asset",
+        fileName: "precache-manifest.json",
+        source: JSON.stringify({ version: buildId, files }, null, 2),
+      });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
+  define: {
+    __BUILD_ID__: JSON.stringify(buildId),
+  },
   plugins: [
     react(),
+    precacheManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),